@@ -0,0 +1,265 @@
+import { useMemo, useState } from "react";
+import { getInDegree, getOutDegree, type GraphIndex } from "../utils/graphIndex";
+import type { GraphAnalytics, GroupFilter, GroupKind } from "../utils/graphMetrics";
+import {
+  colorModeLabels,
+  sizeMetricLabels,
+  type ColorMode,
+  type SizeMetric,
+} from "../utils/nodeStyle";
+
+interface AnalyticsPanelProps {
+  analytics: GraphAnalytics;
+  index: GraphIndex;
+  groupFilter: GroupFilter | null;
+  onChangeGroupFilter: (filter: GroupFilter | null) => void;
+  colorMode: ColorMode;
+  onChangeColorMode: (mode: ColorMode) => void;
+  sizeMetric: SizeMetric;
+  onChangeSizeMetric: (metric: SizeMetric) => void;
+  onSelectEntity: (name: string) => void;
+  onClose: () => void;
+}
+
+interface EntityRow {
+  name: string;
+  entityType: string;
+  degree: number;
+  pageRank: number;
+  betweenness: number;
+  clustering: number;
+  component: number;
+  community: number;
+}
+
+type SortKey = Exclude<keyof EntityRow, "entityType">;
+
+const columns: { key: SortKey; label: string; format?: (value: number) => string }[] = [
+  { key: "name", label: "Entity" },
+  { key: "degree", label: "Degree" },
+  { key: "pageRank", label: "PageRank", format: (value) => value.toFixed(4) },
+  { key: "betweenness", label: "Betweenness", format: (value) => value.toFixed(3) },
+  { key: "clustering", label: "Clustering", format: (value) => value.toFixed(2) },
+  { key: "component", label: "Comp.", format: (value) => `#${value + 1}` },
+  { key: "community", label: "Comm.", format: (value) => `#${value + 1}` },
+];
+
+const TOP_ROWS = 25;
+const TOP_GROUPS = 10;
+
+// Members of each group; group ids count up from the largest group
+const summarizeGroups = (ids: Map<string, number>) => {
+  const groups: string[][] = [];
+  ids.forEach((id, name) => (groups[id] ??= []).push(name));
+  return groups.map((members, id) => ({ id, members }));
+};
+
+// Structural metrics of the graph: components, communities and the most
+// central entities, with controls to color, size or filter by them
+const AnalyticsPanel = ({
+  analytics,
+  index,
+  groupFilter,
+  onChangeGroupFilter,
+  colorMode,
+  onChangeColorMode,
+  sizeMetric,
+  onChangeSizeMetric,
+  onSelectEntity,
+  onClose,
+}: AnalyticsPanelProps) => {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({
+    key: "pageRank",
+    descending: true,
+  });
+
+  const rows = useMemo(
+    () =>
+      [...index.entitiesByName.values()].map(
+        (entity): EntityRow => ({
+          name: entity.name,
+          entityType: entity.entityType,
+          degree: getInDegree(index, entity.name) + getOutDegree(index, entity.name),
+          pageRank: analytics.pageRank.get(entity.name) ?? 0,
+          betweenness: analytics.betweenness.get(entity.name) ?? 0,
+          clustering: analytics.clustering.get(entity.name) ?? 0,
+          component: analytics.component.get(entity.name) ?? 0,
+          community: analytics.communities.community.get(entity.name) ?? 0,
+        })
+      ),
+    [analytics, index]
+  );
+
+  const sortedRows = useMemo(() => {
+    const { key, descending } = sort;
+    const sorted = [...rows].sort((a, b) =>
+      key === "name" ? a.name.localeCompare(b.name) : a[key] - b[key]
+    );
+    if (descending) sorted.reverse();
+    return sorted.slice(0, TOP_ROWS);
+  }, [rows, sort]);
+
+  const components = useMemo(() => summarizeGroups(analytics.component), [analytics]);
+  const communities = useMemo(
+    () => summarizeGroups(analytics.communities.community),
+    [analytics]
+  );
+  const averageClustering =
+    rows.length > 0 ? rows.reduce((sum, row) => sum + row.clustering, 0) / rows.length : 0;
+
+  const toggleSort = (key: SortKey) =>
+    setSort((current) => ({
+      key,
+      descending: current.key === key ? !current.descending : key !== "name",
+    }));
+
+  const renderGroups = (kind: GroupKind, groups: typeof components) => (
+    <ul className="space-y-1">
+      {groups.slice(0, TOP_GROUPS).map((group) => {
+        const active = groupFilter?.kind === kind && groupFilter.id === group.id;
+        return (
+          <li key={group.id} className="flex items-center gap-2">
+            <span className="w-8 text-gray-500">#{group.id + 1}</span>
+            <span className="w-10 text-right">{group.members.length}</span>
+            <span className="flex-1 truncate text-xs text-gray-600">
+              {group.members.slice(0, 3).join(", ")}
+              {group.members.length > 3 && ", …"}
+            </span>
+            <button
+              onClick={() => onChangeGroupFilter(active ? null : { kind, id: group.id })}
+              className={`px-2 py-0.5 rounded text-xs ${
+                active
+                  ? "bg-purple-600 text-white"
+                  : "bg-purple-100 hover:bg-purple-200 text-purple-700"
+              }`}
+            >
+              {active ? "Showing" : "Show only"}
+            </button>
+          </li>
+        );
+      })}
+      {groups.length > TOP_GROUPS && (
+        <li className="text-xs text-gray-500">
+          and {groups.length - TOP_GROUPS} smaller
+        </li>
+      )}
+    </ul>
+  );
+
+  return (
+    <div className="w-[30rem] max-h-full overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-center p-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-purple-800">Graph Analytics</h3>
+          <p className="text-xs text-gray-600">
+            {components.length} component(s) · {communities.length} communities
+            (modularity {analytics.communities.modularity.toFixed(2)}) · average
+            clustering {averageClustering.toFixed(2)}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="p-3 border-b border-gray-200 flex flex-wrap gap-3">
+        <label className="flex items-center text-xs text-gray-700">
+          Color by:
+          <select
+            value={colorMode}
+            onChange={(e) => onChangeColorMode(e.target.value as ColorMode)}
+            className="ml-1 p-1 border border-gray-300 rounded text-xs"
+          >
+            {(Object.keys(colorModeLabels) as ColorMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {colorModeLabels[mode]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center text-xs text-gray-700">
+          Size by:
+          <select
+            value={sizeMetric}
+            onChange={(e) => onChangeSizeMetric(e.target.value as SizeMetric)}
+            className="ml-1 p-1 border border-gray-300 rounded text-xs"
+          >
+            {(Object.keys(sizeMetricLabels) as SizeMetric[]).map((metric) => (
+              <option key={metric} value={metric}>
+                {sizeMetricLabels[metric]}
+              </option>
+            ))}
+          </select>
+        </label>
+        {groupFilter && (
+          <button
+            onClick={() => onChangeGroupFilter(null)}
+            className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+          >
+            Show all {groupFilter.kind === "component" ? "components" : "communities"}
+          </button>
+        )}
+      </div>
+
+      <div className="p-3 border-b border-gray-200">
+        <h4 className="font-semibold mb-1">Top entities</h4>
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-gray-600">
+              {columns.map((column) => (
+                <th key={column.key} className="py-1 pr-2">
+                  <button
+                    onClick={() => toggleSort(column.key)}
+                    className="hover:underline font-semibold"
+                  >
+                    {column.label}
+                    {sort.key === column.key && (sort.descending ? " ▾" : " ▴")}
+                  </button>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {sortedRows.map((row) => (
+              <tr key={row.name} className="border-t border-gray-100">
+                {columns.map((column) =>
+                  column.key === "name" ? (
+                    <td key={column.key} className="py-1 pr-2 max-w-[8rem] truncate">
+                      <button
+                        onClick={() => onSelectEntity(row.name)}
+                        title={`${row.name} (${row.entityType})`}
+                        className="text-blue-600 hover:underline"
+                      >
+                        {row.name}
+                      </button>
+                    </td>
+                  ) : (
+                    <td key={column.key} className="py-1 pr-2 tabular-nums">
+                      {column.format
+                        ? column.format(row[column.key])
+                        : row[column.key]}
+                    </td>
+                  )
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="p-3 border-b border-gray-200">
+        <h4 className="font-semibold mb-1">Connected components</h4>
+        {renderGroups("component", components)}
+      </div>
+      <div className="p-3">
+        <h4 className="font-semibold mb-1">Communities (Louvain)</h4>
+        {renderGroups("community", communities)}
+      </div>
+    </div>
+  );
+};
+
+export default AnalyticsPanel;
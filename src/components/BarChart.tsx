@@ -0,0 +1,163 @@
+import { useEffect, useRef } from "react";
+import * as d3 from "d3";
+
+export interface Bar {
+  key: string;
+  label: string;
+  value: number;
+  color?: string;
+  title?: string; // tooltip, defaults to "label: value"
+}
+
+interface BarChartProps {
+  bars: Bar[];
+  // Horizontal bars suit named categories, vertical ones histograms
+  orientation: "horizontal" | "vertical";
+  activeKeys?: Set<string>;
+  onSelect: (key: string) => void;
+  width?: number;
+  xLabel?: string;
+}
+
+const BAR_COLOR = "#a78bfa";
+const ACTIVE_COLOR = "#7c3aed";
+const ROW_HEIGHT = 18;
+const CHART_HEIGHT = 140;
+const MAX_LABEL_LENGTH = 16;
+
+const truncate = (text: string) =>
+  text.length > MAX_LABEL_LENGTH ? `${text.slice(0, MAX_LABEL_LENGTH - 1)}…` : text;
+
+// Bar chart drawn with D3; clicking a bar selects its key
+const BarChart = ({
+  bars,
+  orientation,
+  activeKeys,
+  onSelect,
+  width = 320,
+  xLabel,
+}: BarChartProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  // Latest callback for the click handlers bound by D3
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  const horizontal = orientation === "horizontal";
+  const margin = horizontal
+    ? { top: 4, right: 36, bottom: 4, left: 110 }
+    : { top: 8, right: 8, bottom: xLabel ? 34 : 22, left: 36 };
+  const height = horizontal
+    ? margin.top + margin.bottom + bars.length * ROW_HEIGHT
+    : CHART_HEIGHT + margin.top + margin.bottom;
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    const chart = svg
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+    const innerWidth = width - margin.left - margin.right;
+    const innerHeight = height - margin.top - margin.bottom;
+    const max = d3.max(bars, (bar) => bar.value) || 1;
+    const fill = (bar: Bar) =>
+      activeKeys?.has(bar.key) ? ACTIVE_COLOR : bar.color ?? BAR_COLOR;
+
+    const rects = chart
+      .selectAll("rect")
+      .data(bars)
+      .join("rect")
+      .attr("fill", fill)
+      .attr("stroke", (bar) => (activeKeys?.has(bar.key) ? "#4c1d95" : null))
+      .attr("cursor", "pointer")
+      .on("click", (_event, bar) => onSelectRef.current(bar.key))
+      .on("mouseenter", function () {
+        d3.select(this).attr("opacity", 0.75);
+      })
+      .on("mouseleave", function () {
+        d3.select(this).attr("opacity", 1);
+      });
+    rects.append("title").text((bar) => bar.title ?? `${bar.label}: ${bar.value}`);
+
+    if (horizontal) {
+      const x = d3.scaleLinear().domain([0, max]).range([0, innerWidth]);
+      const y = d3
+        .scaleBand()
+        .domain(bars.map((bar) => bar.key))
+        .range([0, innerHeight])
+        .padding(0.15);
+      rects
+        .attr("x", 0)
+        .attr("y", (bar) => y(bar.key))
+        .attr("width", (bar) => Math.max(1, x(bar.value)))
+        .attr("height", y.bandwidth());
+      chart
+        .selectAll("text.label")
+        .data(bars)
+        .join("text")
+        .attr("class", "label")
+        .attr("x", -4)
+        .attr("y", (bar) => y(bar.key) + y.bandwidth() / 2)
+        .attr("dy", "0.35em")
+        .attr("text-anchor", "end")
+        .attr("font-size", 11)
+        .attr("fill", "#374151")
+        .attr("cursor", "pointer")
+        .text((bar) => truncate(bar.label))
+        .on("click", (_event, bar) => onSelectRef.current(bar.key));
+      chart
+        .selectAll("text.value")
+        .data(bars)
+        .join("text")
+        .attr("class", "value")
+        .attr("x", (bar) => x(bar.value) + 3)
+        .attr("y", (bar) => y(bar.key) + y.bandwidth() / 2)
+        .attr("dy", "0.35em")
+        .attr("font-size", 10)
+        .attr("fill", "#6b7280")
+        .text((bar) => bar.value);
+    } else {
+      const x = d3
+        .scaleBand()
+        .domain(bars.map((bar) => bar.key))
+        .range([0, innerWidth])
+        .padding(0.1);
+      const y = d3.scaleLinear().domain([0, max]).nice().range([innerHeight, 0]);
+      rects
+        .attr("x", (bar) => x(bar.key))
+        .attr("y", (bar) => y(bar.value))
+        .attr("width", x.bandwidth())
+        .attr("height", (bar) => innerHeight - y(bar.value));
+      // Label only as many bins as fit under the chart
+      const every = Math.ceil(bars.length / Math.max(1, Math.floor(innerWidth / 28)));
+      chart
+        .append("g")
+        .attr("transform", `translate(0,${innerHeight})`)
+        .call(
+          d3
+            .axisBottom(x)
+            .tickValues(bars.filter((_bar, i) => i % every === 0).map((bar) => bar.key))
+            .tickFormat((key) => bars.find((bar) => bar.key === key)?.label ?? key)
+        )
+        .attr("font-size", 9);
+      chart
+        .append("g")
+        .call(d3.axisLeft(y).ticks(4, "~s"))
+        .attr("font-size", 9);
+      if (xLabel) {
+        chart
+          .append("text")
+          .attr("x", innerWidth / 2)
+          .attr("y", innerHeight + 30)
+          .attr("text-anchor", "middle")
+          .attr("font-size", 10)
+          .attr("fill", "#6b7280")
+          .text(xLabel);
+      }
+    }
+  }, [bars, activeKeys, horizontal, width, height, xLabel]);
+
+  return <svg ref={svgRef} width={width} height={height} role="img" />;
+};
+
+export default BarChart;
@@ -0,0 +1,148 @@
+import {
+  changeStatusColors,
+  type ChangeStatus,
+  type GraphDiff,
+} from "../utils/graphDiff";
+
+interface DiffPanelProps {
+  diff: GraphDiff;
+  beforeName: string;
+  afterName: string;
+  onSelectEntity: (name: string) => void;
+  onExit: () => void;
+}
+
+const statusLabels: Record<ChangeStatus, string> = {
+  added: "Added",
+  removed: "Removed",
+  modified: "Modified",
+  unchanged: "Unchanged",
+};
+
+const StatusDot = ({ status }: { status: ChangeStatus }) => (
+  <span
+    className="inline-block w-2 h-2 rounded-full mr-1 flex-shrink-0"
+    style={{ backgroundColor: changeStatusColors[status] }}
+  />
+);
+
+// Lists what changed between two snapshots; entity names navigate the graph
+const DiffPanel = ({
+  diff,
+  beforeName,
+  afterName,
+  onSelectEntity,
+  onExit,
+}: DiffPanelProps) => {
+  const entityGroups = (["added", "removed", "modified"] as const).map(
+    (status) => ({
+      status,
+      changes: diff.entityChanges.filter((c) => c.status === status),
+    })
+  );
+  const relationGroups = (["added", "removed"] as const).map((status) => ({
+    status,
+    changes: diff.relationChanges.filter((c) => c.status === status),
+  }));
+
+  const entityButton = (name: string) => (
+    <button
+      onClick={() => onSelectEntity(name)}
+      className="text-blue-600 hover:underline text-left"
+    >
+      {name}
+    </button>
+  );
+
+  return (
+    <div className="w-96 max-h-full overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-start p-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-purple-800">Changes</h3>
+          <p className="text-xs text-gray-600">
+            {beforeName} → {afterName}
+          </p>
+          <div className="flex flex-wrap gap-2 mt-1 text-xs text-gray-600">
+            {(Object.keys(statusLabels) as ChangeStatus[]).map((status) => (
+              <span key={status} className="flex items-center">
+                <StatusDot status={status} />
+                {statusLabels[status]}
+              </span>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={onExit}
+          className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+        >
+          Exit compare
+        </button>
+      </div>
+
+      {diff.entityChanges.length === 0 && diff.relationChanges.length === 0 && (
+        <p className="p-3 text-gray-600">The two snapshots are identical.</p>
+      )}
+
+      {entityGroups.map(({ status, changes }) =>
+        changes.length > 0 ? (
+          <div key={status} className="p-3 border-b border-gray-100">
+            <h4 className="font-semibold mb-1 flex items-center">
+              <StatusDot status={status} />
+              {statusLabels[status]} entities ({changes.length})
+            </h4>
+            <ul className="space-y-1">
+              {changes.map((change) => (
+                <li key={change.name}>
+                  {entityButton(change.name)}{" "}
+                  <span className="text-xs text-gray-500">
+                    {change.previousEntityType
+                      ? `${change.previousEntityType} → ${change.entityType}`
+                      : change.entityType}
+                  </span>
+                  {status === "modified" && (
+                    <ul className="pl-4 text-xs">
+                      {change.addedObservations.map((obs, i) => (
+                        <li key={`+${i}`} className="text-green-700">
+                          + {obs}
+                        </li>
+                      ))}
+                      {change.removedObservations.map((obs, i) => (
+                        <li key={`-${i}`} className="text-red-700">
+                          − {obs}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null
+      )}
+
+      {relationGroups.map(({ status, changes }) =>
+        changes.length > 0 ? (
+          <div key={status} className="p-3 border-b border-gray-100">
+            <h4 className="font-semibold mb-1 flex items-center">
+              <StatusDot status={status} />
+              {statusLabels[status]} relations ({changes.length})
+            </h4>
+            <ul className="space-y-1">
+              {changes.map(({ relation }, i) => (
+                <li key={i}>
+                  {entityButton(relation.from)}{" "}
+                  <span className="italic text-gray-600">
+                    —{relation.relationType}→
+                  </span>{" "}
+                  {entityButton(relation.to)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ) : null
+      )}
+    </div>
+  );
+};
+
+export default DiffPanel;
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import {
+  nodeShapePath,
+  nodeShapeSymbols,
+  type NodeShape,
+  type TypeStyle,
+} from "../utils/nodeStyle";
+
+interface EntityTypeLegendProps {
+  typeStyles: Map<string, TypeStyle>;
+  counts: Map<string, number>;
+  hiddenTypes: Set<string>;
+  onToggleType: (type: string) => void;
+  onChangeStyle: (type: string, style: Partial<TypeStyle>) => void;
+  onResetStyles: () => void;
+}
+
+export const ShapeSwatch = ({ style, size = 14 }: { style: TypeStyle; size?: number }) => (
+  <svg
+    width={size}
+    height={size}
+    viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`}
+    className="flex-shrink-0"
+  >
+    <path d={nodeShapePath(style.shape, size * 0.35)} fill={style.color} />
+  </svg>
+);
+
+// Entity types with their color and shape. Clicking a type shows or hides
+// its entities; in edit mode the color and shape can be changed.
+const EntityTypeLegend = ({
+  typeStyles,
+  counts,
+  hiddenTypes,
+  onToggleType,
+  onChangeStyle,
+  onResetStyles,
+}: EntityTypeLegendProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-700">
+      <span className="text-sm font-medium">Entity types:</span>
+      {[...typeStyles].map(([type, style]) => (
+        <span key={type} className="flex items-center gap-1">
+          <button
+            onClick={() => onToggleType(type)}
+            title={hiddenTypes.has(type) ? "Show this type" : "Hide this type"}
+            className={`flex items-center gap-1 hover:underline ${
+              hiddenTypes.has(type) ? "opacity-40 line-through" : ""
+            }`}
+          >
+            <ShapeSwatch style={style} />
+            {type} ({counts.get(type) ?? 0})
+          </button>
+          {isEditing && (
+            <>
+              <input
+                type="color"
+                value={style.color}
+                onChange={(e) => onChangeStyle(type, { color: e.target.value })}
+                aria-label={`Color for ${type}`}
+                className="w-5 h-5 p-0 border-0 cursor-pointer"
+              />
+              <select
+                value={style.shape}
+                onChange={(e) =>
+                  onChangeStyle(type, { shape: e.target.value as NodeShape })
+                }
+                aria-label={`Shape for ${type}`}
+                className="p-0 border border-gray-300 rounded text-xs"
+              >
+                {Object.keys(nodeShapeSymbols).map((shape) => (
+                  <option key={shape} value={shape}>
+                    {shape}
+                  </option>
+                ))}
+              </select>
+            </>
+          )}
+        </span>
+      ))}
+      <button
+        onClick={() => setIsEditing(!isEditing)}
+        className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 rounded"
+      >
+        {isEditing ? "Done" : "Customize"}
+      </button>
+      {isEditing && (
+        <button
+          onClick={onResetStyles}
+          className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 rounded"
+        >
+          Reset styles
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default EntityTypeLegend;
@@ -0,0 +1,133 @@
+import type { Node } from "../types";
+
+interface FocusBarProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  hops: number;
+  onChangeHops: (hops: number) => void;
+  center: string | null;
+  shownCount: number;
+  boundaryCount: number;
+  expandedCount: number;
+  onExpandAll: () => void;
+  onResetExpanded: () => void;
+  history: Node[];
+  historyIndex: number;
+  onGoTo: (index: number) => void;
+}
+
+// Entries of the navigation history shown in the breadcrumb
+const BREADCRUMB_LENGTH = 8;
+
+// Controls for the ego-network mode, which shows only the neighborhood of
+// the selected entity, and a breadcrumb of the entities visited
+const FocusBar = ({
+  enabled,
+  onToggle,
+  hops,
+  onChangeHops,
+  center,
+  shownCount,
+  boundaryCount,
+  expandedCount,
+  onExpandAll,
+  onResetExpanded,
+  history,
+  historyIndex,
+  onGoTo,
+}: FocusBarProps) => {
+  const start = Math.max(
+    0,
+    Math.min(historyIndex - BREADCRUMB_LENGTH + 3, history.length - BREADCRUMB_LENGTH)
+  );
+  const crumbs = history.slice(start, start + BREADCRUMB_LENGTH);
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-700">
+      <label className="flex items-center font-medium">
+        <input
+          type="checkbox"
+          checked={enabled}
+          onChange={(e) => onToggle(e.target.checked)}
+          className="mr-1"
+        />
+        Focus on selection
+      </label>
+      {enabled && (
+        <>
+          <label className="flex items-center">
+            Hops:
+            <input
+              type="number"
+              min={1}
+              max={6}
+              value={hops}
+              onChange={(e) =>
+                onChangeHops(Math.min(6, Math.max(1, Math.round(Number(e.target.value)) || 1)))
+              }
+              className="w-14 ml-1 p-1 border border-gray-300 rounded text-sm"
+            />
+          </label>
+          {center ? (
+            <span className="text-xs text-gray-600">
+              {shownCount} entities around <strong>{center}</strong>
+              {boundaryCount > 0 &&
+                ` · ${boundaryCount} with more neighbors (dashed outline, Alt+click to expand)`}
+            </span>
+          ) : (
+            <span className="text-xs text-gray-500">
+              Select an entity to show its neighborhood
+            </span>
+          )}
+          {center && boundaryCount > 0 && (
+            <button
+              onClick={onExpandAll}
+              className="px-2 py-0.5 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-xs"
+            >
+              Expand all
+            </button>
+          )}
+          {expandedCount > 0 && (
+            <button
+              onClick={onResetExpanded}
+              className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+            >
+              Collapse {expandedCount} expanded
+            </button>
+          )}
+        </>
+      )}
+      {enabled && history.length > 0 && (
+        <nav aria-label="Visited entities" className="flex flex-wrap items-center gap-1 text-xs">
+          {start > 0 && <span className="text-gray-400">…</span>}
+          {crumbs.map((node, i) => {
+            const position = start + i;
+            return (
+              <span key={position} className="flex items-center gap-1">
+                {i > 0 && <span className="text-gray-400">›</span>}
+                <button
+                  onClick={() => onGoTo(position)}
+                  aria-current={position === historyIndex ? "page" : undefined}
+                  className={`hover:underline ${
+                    position === historyIndex
+                      ? "font-semibold text-purple-700"
+                      : position > historyIndex
+                        ? "text-gray-400"
+                        : "text-blue-600"
+                  }`}
+                >
+                  {node.name}
+                </button>
+              </span>
+            );
+          })}
+          {start + BREADCRUMB_LENGTH < history.length && (
+            <span className="text-gray-400">…</span>
+          )}
+        </nav>
+      )}
+    </div>
+  );
+};
+
+export default FocusBar;
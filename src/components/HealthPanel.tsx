@@ -0,0 +1,98 @@
+import { useState } from "react";
+import type { HealthCategory } from "../utils/graphHealth";
+
+interface HealthPanelProps {
+  categories: HealthCategory[];
+  onFix?: (category: HealthCategory) => void; // left out while read-only
+  onSelectEntity: (name: string) => void;
+  onClose: () => void;
+}
+
+// Integrity checks for the loaded graph, with a one-click fix for the
+// categories that have one
+const HealthPanel = ({
+  categories,
+  onFix,
+  onSelectEntity,
+  onClose,
+}: HealthPanelProps) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const issueCount = categories.reduce((sum, c) => sum + c.issues.length, 0);
+
+  return (
+    <div className="w-96 max-h-full overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-center p-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-purple-800">Graph Health</h3>
+          <p className="text-xs text-gray-600">
+            {issueCount === 0 ? "No problems found" : `${issueCount} issue(s) found`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+        >
+          ✕
+        </button>
+      </div>
+      <ul className="divide-y divide-gray-100">
+        {categories.map((category) => (
+          <li key={category.id} className="p-3">
+            <div className="flex justify-between items-center">
+              <button
+                onClick={() =>
+                  setExpanded(expanded === category.id ? null : category.id)
+                }
+                disabled={category.issues.length === 0}
+                className="text-left font-medium disabled:text-gray-400"
+              >
+                {category.issues.length > 0 ? (expanded === category.id ? "▾ " : "▸ ") : "✓ "}
+                {category.title}
+              </button>
+              <span
+                className={`px-2 rounded-full text-xs ${
+                  category.issues.length > 0
+                    ? "bg-red-100 text-red-700"
+                    : "bg-green-50 text-green-700"
+                }`}
+              >
+                {category.issues.length}
+              </span>
+            </div>
+            <p className="text-xs text-gray-500">{category.description}</p>
+            {expanded === category.id && category.issues.length > 0 && (
+              <>
+                <ul className="mt-2 max-h-40 overflow-y-auto list-disc pl-5">
+                  {category.issues.map((issue, i) => (
+                    <li key={i} className="text-xs mb-1">
+                      {issue.entityName ? (
+                        <button
+                          onClick={() => onSelectEntity(issue.entityName!)}
+                          className="text-blue-600 hover:underline text-left"
+                        >
+                          {issue.message}
+                        </button>
+                      ) : (
+                        issue.message
+                      )}
+                    </li>
+                  ))}
+                </ul>
+                {onFix && category.fix && (
+                  <button
+                    onClick={() => onFix(category)}
+                    className="mt-2 px-2 py-1 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-xs"
+                  >
+                    {category.fixLabel}
+                  </button>
+                )}
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default HealthPanel;
@@ -5,51 +5,189 @@ import {
   useRef,
   useCallback,
   useLayoutEffect,
+  useMemo,
 } from "react";
 import * as d3 from "d3";
+import type { Relation, GraphData, Node, Link, Stats } from "../types";
+import {
+  parseLine,
+  memoryFormatLabels,
+  parseMemoryJson,
+  serializeMemoryJson,
+  type ParseIssue,
+  type SourceReport,
+} from "../utils/memoryJson";
+import { downloadTextFile } from "../utils/download";
+import { readFileAsText } from "../utils/readFile";
+import {
+  getSources,
+  mergeGraphData,
+  mergeTypeConflicts,
+  tagSources,
+  type TypeConflict,
+} from "../utils/mergeGraphs";
+import {
+  changeStatusColors,
+  diffGraphs,
+  type GraphDiff,
+} from "../utils/graphDiff";
+import { lintGraph, type HealthCategory } from "../utils/graphHealth";
+import ParseReportPanel from "./ParseReportPanel";
+import HealthPanel from "./HealthPanel";
+import MergeConflictsPanel from "./MergeConflictsPanel";
+import DiffPanel from "./DiffPanel";
+import EntityTypeLegend from "./EntityTypeLegend";
+import RelationTypeLegend from "./RelationTypeLegend";
+import TypeFilterDropdown from "./TypeFilterDropdown";
+import SearchResults from "./SearchResults";
+import FocusBar from "./FocusBar";
+import PathFinderPanel from "./PathFinderPanel";
+import AnalyticsPanel from "./AnalyticsPanel";
+import StatsDashboard from "./StatsDashboard";
+import SchemaPanel from "./SchemaPanel";
+import { inferSchema } from "../utils/schema";
+import { computeDistributions, computeStats } from "../utils/stats";
+import { getNeighborhood } from "../utils/neighborhood";
+import { findShortestPaths, pathEntities } from "../utils/pathFinder";
+import {
+  findQueryMatches,
+  matchesQuery,
+  parseQuery,
+  type QueryError,
+  type QueryNode,
+  type SearchResult,
+} from "../utils/graphQuery";
+import {
+  emptyTypeFilter,
+  hiddenByTypeFilter,
+  isTypeFilterActive,
+  passesTypeFilter,
+  toggleOnlyTypes,
+  toggleTypeVisibility,
+  type TypeFilter,
+} from "../utils/typeFilter";
+import {
+  buildGraphIndex,
+  getInDegree,
+  getIncoming,
+  getRelationsOf,
+  getOutDegree,
+  getOutgoing,
+} from "../utils/graphIndex";
+import {
+  drawGraph,
+  findNodeAt,
+  setupCanvas,
+  DIMMED_OPACITY,
+  EXPANDABLE_DASH,
+  LINK_LABEL_MIN_ZOOM,
+  PATH_COLOR,
+  PIN_COLOR,
+  pinOffset,
+  type CanvasFrame,
+  type GraphStyle,
+} from "../utils/canvasRenderer";
+import { startForceLayout, type ForceLayout } from "../utils/forceLayout";
+import {
+  animatePositions,
+  computeStaticLayout,
+  layoutModeLabels,
+  type HierarchyDirection,
+  type LayoutMode,
+} from "../utils/layouts";
+import {
+  buildTypeStyles,
+  colorModeLabels,
+  colorModeNeedsAnalytics,
+  computeNodeColors,
+  computeSizeValues,
+  isAnalyticsMetric,
+  ENTITY_STYLE_STORAGE_KEY,
+  isGroupColorMode,
+  loadStyleOverrides,
+  METRIC_COLOR_INTERPOLATOR,
+  nodeShapePath,
+  sizeMetricLabels,
+  storeStyleOverrides,
+  type ColorMode,
+  type SizeMetric,
+  type TypeStyle,
+  type TypeStyleOverrides,
+} from "../utils/nodeStyle";
+import { computeLinkOffsets, curvePath, linkGeometry } from "../utils/linkGeometry";
+import {
+  startGraphAnalytics,
+  type GraphAnalytics,
+  type GroupFilter,
+} from "../utils/graphMetrics";
+import {
+  buildRelationStyles,
+  DASH_PATTERN,
+  RELATION_STYLE_STORAGE_KEY,
+  type RelationStyle,
+  type RelationStyleOverrides,
+} from "../utils/linkStyle";
+import {
+  captureLayout,
+  loadStoredLayout,
+  parseSavedLayout,
+  positionsFileName,
+  serializeSavedLayout,
+  storeLayout,
+  type SavedLayout,
+} from "../utils/savedLayout";
+import {
+  addEntity,
+  addRelation,
+  deleteEntity,
+  findRelation,
+  hasEntity,
+  removeRelation,
+  reverseRelation,
+  updateRelation,
+  relationKey,
+  type RelationFields,
+} from "../utils/graphEdits";
+import {
+  createEdit,
+  editHistoryReducer,
+  initialEditHistory,
+  redoEdit,
+  undoEdit,
+} from "../utils/editHistory";
+
+// Two snapshots being compared; the graph shows their union
+type Comparison = {
+  diff: GraphDiff;
+  beforeName: string;
+  afterName: string;
+  after: GraphData;
+};
 
-// Define types for our data structures
-interface Entity {
+// Draft of an entity being created, with the graph position it was created at
+type EntityDraft = {
   name: string;
   entityType: string;
-  observations: string[];
-  type: string;
-}
-
-interface Relation {
-  from: string;
-  to: string;
-  relationType: string;
-  type: string;
-}
-
-interface GraphData {
-  entities: Entity[];
-  relations: Relation[];
-}
+  observations: string;
+  x: number;
+  y: number;
+};
 
-interface Stats {
-  entityCount: number;
-  relationCount: number;
-  entityTypeCount: number;
-  relationTypeCount: number;
-}
+type RendererMode = "auto" | "svg" | "canvas";
+type SidePanel = "health" | "analytics" | "dashboard" | "schema";
 
-interface Node extends d3.SimulationNodeDatum {
-  id: string;
-  name: string;
-  entityType: string;
-  observations: string[];
-  x?: number;
-  y?: number;
-  degree?: number;
-}
+// Longest list of matches shown under the search bar
+const MAX_SEARCH_RESULTS = 50;
+// Shown on editing controls while two snapshots are compared
+const READ_ONLY_HINT = "Leave compare mode to edit or save the graph";
 
-interface Link {
-  source: Node;
-  target: Node;
-  type: string;
-}
+type LayoutSettings = {
+  mode: LayoutMode;
+  direction: HierarchyDirection;
+  focus: string | null; // entity the radial layout is centered on
+};
+const layoutKey = ({ mode, direction, focus }: LayoutSettings) =>
+  JSON.stringify([mode, direction, focus]);
 
 // History state for node selection and navigation
 type HistoryState = {
@@ -61,7 +199,9 @@ type HistoryAction =
   | { type: 'select'; node: Node }
   | { type: 'back' }
   | { type: 'forward' }
+  | { type: 'go'; index: number }
   | { type: 'clear' }
+  | { type: 'remove'; name: string }
   | { type: 'reset' };
 function historyReducer(
   state: HistoryState,
@@ -99,9 +239,41 @@ function historyReducer(
       }
       return state;
     }
+    case 'go': {
+      if (action.index < 0 || action.index >= state.history.length) {
+        return state;
+      }
+      return {
+        ...state,
+        index: action.index,
+        selectedNode: state.history[action.index],
+      };
+    }
     case 'clear': {
       return { ...state, selectedNode: null };
     }
+    case 'remove': {
+      // Drop every history entry for a deleted entity so back/forward
+      // never lands on a node that no longer exists
+      const removedBefore = state.history
+        .slice(0, state.index + 1)
+        .filter((node) => node.name === action.name).length;
+      const newHistory = state.history.filter(
+        (node) => node.name !== action.name
+      );
+      const newIndex = Math.min(
+        state.index - removedBefore,
+        newHistory.length - 1
+      );
+      return {
+        history: newHistory,
+        index: newIndex,
+        selectedNode:
+          state.selectedNode && state.selectedNode.name !== action.name
+            ? state.selectedNode
+            : null,
+      };
+    }
     case 'reset': {
       return { history: [], index: -1, selectedNode: null };
     }
@@ -112,6 +284,7 @@ function historyReducer(
 
 const KnowledgeGraphVisualization = () => {
   const svgRef = useRef<SVGSVGElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [graphData, setGraphData] = useState<GraphData | null>(null);
@@ -121,31 +294,209 @@ const KnowledgeGraphVisualization = () => {
     { history: [], index: -1, selectedNode: null } as HistoryState
   );
   const { history, index, selectedNode } = historyState;
+  // Undo/redo for graph edits
+  const [editHistory, dispatchEdits] = useReducer(
+    editHistoryReducer,
+    initialEditHistory
+  );
+  const [showEditHistory, setShowEditHistory] = useState(false);
   // Refs to manage D3 nodes and zoom behavior for recentering
   const nodesRef = useRef<Node[]>([]);
   const nodeMapRef = useRef<Map<string, Node>>(new Map());
   const transformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
-  const zoomBehaviorRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
+  const zoomBehaviorRef = useRef<d3.ZoomBehavior<Element, unknown> | null>(null);
+  // Element the zoom behavior is attached to: the SVG or the canvas
+  const zoomTargetRef = useRef<Element | null>(null);
+  // Renderer choice; "auto" switches to canvas above the node threshold
+  const [rendererMode, setRendererMode] = useState<RendererMode>("auto");
+  const [canvasThreshold, setCanvasThreshold] = useState(1000);
+  const [activeRenderer, setActiveRenderer] = useState<"svg" | "canvas">("svg");
   const [searchTerm, setSearchTerm] = useState("");
-  const [filterEntityType, setFilterEntityType] = useState("All");
-  const [filterRelationType, setFilterRelationType] = useState("All");
+  // Query applied to the graph, trailing the input so typing stays smooth.
+  // While the input doesn't parse, the last valid query stays applied.
+  const [activeQuery, setActiveQuery] = useState<{
+    text: string;
+    query: QueryNode;
+  } | null>(null);
+  const [queryError, setQueryError] = useState<QueryError | null>(null);
+  // "highlight" dims entities that don't match the query instead of hiding them
+  const [searchMode, setSearchMode] = useState<"filter" | "highlight">("filter");
+  const [showSearchResults, setShowSearchResults] = useState(false);
+  const [activeSearchResult, setActiveSearchResult] = useState(0);
+  // Ego-network mode: only the neighborhood of the selected entity is shown
+  const [focusMode, setFocusMode] = useState(false);
+  const [focusHops, setFocusHops] = useState(2);
+  // Boundary entities whose neighbors were pulled into the focused view
+  const [expandedNames, setExpandedNames] = useState<string[]>([]);
+  // Path finder between two entities
+  const [showPathFinder, setShowPathFinder] = useState(false);
+  const [pathEnds, setPathEnds] = useState({ from: "", to: "" });
+  const [pathDirected, setPathDirected] = useState(false);
+  const [pathRelationFilter, setPathRelationFilter] =
+    useState<TypeFilter>(emptyTypeFilter);
+  const [selectedPath, setSelectedPath] = useState(0);
+  const [entityTypeFilter, setEntityTypeFilter] =
+    useState<TypeFilter>(emptyTypeFilter);
+  const [relationTypeFilter, setRelationTypeFilter] =
+    useState<TypeFilter>(emptyTypeFilter);
   const [isDragging, setIsDragging] = useState(false);
   const [errorMessage, setErrorMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [stats, setStats] = useState<Stats | null>(null);
+  const [parseReports, setParseReports] = useState<SourceReport[]>([]);
+  const [showParseReport, setShowParseReport] = useState(false);
+  const [typeConflicts, setTypeConflicts] = useState<TypeConflict[]>([]);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [filterSource, setFilterSource] = useState("All");
+  const [colorBySource, setColorBySource] = useState(false);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  // Compare mode shows the union of two snapshots, which must never be
+  // edited, merged into or saved as a memory file
+  const readOnly = comparison !== null;
+  const [compareFiles, setCompareFiles] = useState<{
+    before: File | null;
+    after: File | null;
+  }>({ before: null, after: null });
+  // The panel shown along the right edge of the graph, one at a time
+  const [activePanel, setActivePanel] = useState<SidePanel | null>(null);
   const [isEditing, setIsEditing] = useState(false);
   const [editingNodeData, setEditingNodeData] = useState<Node | null>(null);
+  const [editError, setEditError] = useState("");
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [deleteRepointTarget, setDeleteRepointTarget] = useState("");
+  const [newRelation, setNewRelation] = useState<RelationFields | null>(null);
+  const [editingRelation, setEditingRelation] = useState<Relation | null>(null);
+  const [editingRelationType, setEditingRelationType] = useState("");
+  const [relationError, setRelationError] = useState("");
+  const [newEntity, setNewEntity] = useState<EntityDraft | null>(null);
+  const [entityError, setEntityError] = useState("");
+  // Adjacency and type lookups, rebuilt only when the graph changes
+  const graphIndex = useMemo(
+    () => buildGraphIndex(graphData ?? { entities: [], relations: [] }),
+    [graphData]
+  );
+  const stats = useMemo(
+    () => (graphData ? computeStats(graphData, graphIndex) : null),
+    [graphData, graphIndex]
+  );
+  // The selected entity as it is now in the graph. selectedNode is a
+  // snapshot from when it was clicked and goes stale after undo, merges
+  // and fixes.
+  const selectedEntity = selectedNode
+    ? graphIndex.entitiesByName.get(selectedNode.name)
+    : undefined;
+  useEffect(() => {
+    if (graphData && selectedNode && !selectedEntity) {
+      dispatchHistory({ type: 'clear' });
+    }
+  }, [graphData, selectedNode, selectedEntity]);
+  // Re-applies the filters to the rendered graph
+  const applyVisibilityRef = useRef<(() => void) | null>(null);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>("force");
+  const [hierarchyDirection, setHierarchyDirection] =
+    useState<HierarchyDirection>("down");
+  // Switches the rendered graph to the layout in layoutSettingsRef
+  const applyLayoutRef = useRef<(() => void) | null>(null);
+  // Entities whose nodes stay where they were put
+  const [pinnedNames, setPinnedNames] = useState<Set<string>>(new Set());
+  const pinnedRef = useRef(pinnedNames);
+  pinnedRef.current = pinnedNames;
+  // Fixes or releases the rendered nodes to match pinnedRef
+  const applyPinsRef = useRef<(() => void) | null>(null);
+  // Node colors, shapes and sizes
+  const [typeStyleOverrides, setTypeStyleOverrides] =
+    useState<TypeStyleOverrides>(() =>
+      loadStyleOverrides<TypeStyle>(ENTITY_STYLE_STORAGE_KEY)
+    );
+  const [sizeMetric, setSizeMetric] = useState<SizeMetric>("degree");
+  const [colorMode, setColorMode] = useState<ColorMode>("type");
+  // The component or community the view is limited to
+  const [groupFilter, setGroupFilter] = useState<GroupFilter | null>(null);
+  const typeStyles = useMemo(
+    () => buildTypeStyles([...graphIndex.entitiesByType.keys()], typeStyleOverrides),
+    [graphIndex, typeStyleOverrides]
+  );
+  // Link colors, dash styles and labels
+  const [relationStyleOverrides, setRelationStyleOverrides] =
+    useState<RelationStyleOverrides>(() =>
+      loadStyleOverrides<RelationStyle>(RELATION_STYLE_STORAGE_KEY)
+    );
+  // Link labels are hidden while zoomed out further than this; null shows
+  // them at every zoom level
+  const [linkLabelMinZoom, setLinkLabelMinZoom] = useState<number | null>(null);
+  const relationStyles = useMemo(
+    () =>
+      buildRelationStyles(
+        [...graphIndex.relationsByType.keys()],
+        relationStyleOverrides
+      ),
+    [graphIndex, relationStyleOverrides]
+  );
+  // Bumped to lay the graph out again from imported positions
+  const [layoutVersion, setLayoutVersion] = useState(0);
+  // Positions to seed for entities that don't have a node yet
+  const pendingPositionsRef = useRef<Map<string, { x: number; y: number }>>(
+    new Map()
+  );
+
+  // Replace the graph after an edit and record the edit so it can be undone
+  const updateGraphData = (updated: GraphData, label: string) => {
+    if (readOnly) return;
+    if (graphData) {
+      dispatchEdits({ type: 'record', edit: createEdit(label, graphData, updated) });
+    }
+    setGraphData(updated);
+  };
+
+  // Drop selection history for entities that no longer exist in the graph
+  const forgetMissingEntities = (data: GraphData) => {
+    const names = new Set(data.entities.map((e) => e.name));
+    new Set(history.map((node) => node.name)).forEach((name) => {
+      if (!names.has(name)) dispatchHistory({ type: 'remove', name });
+    });
+  };
+
+  // Restore a graph from the undo/redo stacks
+  const restoreGraphData = (restored: GraphData) => {
+    setGraphData(restored);
+    forgetMissingEntities(restored);
+  };
+
+  const handleUndo = () => {
+    const edit = editHistory.past[editHistory.past.length - 1];
+    if (!edit || !graphData) return;
+    restoreGraphData(undoEdit(graphData, edit));
+    dispatchEdits({ type: 'undo' });
+  };
+
+  const handleRedo = () => {
+    const edit = editHistory.future[0];
+    if (!edit || !graphData) return;
+    restoreGraphData(redoEdit(graphData, edit));
+    dispatchEdits({ type: 'redo' });
+  };
 
   // Handle saving edited node data
   const handleSaveNode = () => {
-    if (!editingNodeData || !graphData || !selectedNode) {
-      console.log('Save cancelled: missing data', { editingNodeData, graphData, selectedNode });
-      return;
-    }
+    if (!editingNodeData || !graphData || !selectedNode) return;
 
-    console.log('Starting save process...');
     const originalName = selectedNode.name;
-    const newName = editingNodeData.name;
+    const newName = editingNodeData.name.trim();
+    const entityType = editingNodeData.entityType.trim();
+    if (!newName) {
+      setEditError("Name is required.");
+      return;
+    }
+    if (newName !== originalName && hasEntity(graphData, newName)) {
+      setEditError(`An entity named "${newName}" already exists.`);
+      return;
+    }
+    if (!entityType) {
+      setEditError("Entity type is required.");
+      return;
+    }
+    const observations = editingNodeData.observations
+      .map((obs) => obs.trim())
+      .filter(Boolean);
 
     // Update the entity in graphData
     const updatedEntities = graphData.entities.map(entity => {
@@ -153,15 +504,22 @@ const KnowledgeGraphVisualization = () => {
         return {
           ...entity,
           name: newName,
-          entityType: editingNodeData.entityType,
-          observations: editingNodeData.observations
+          entityType,
+          observations
         };
       }
       return entity;
     });
 
     // Update relations if entity name changed
+    // Only relations that change are copied, so the recorded edit stays small
     const updatedRelations = graphData.relations.map(relation => {
+      if (
+        originalName === newName ||
+        (relation.from !== originalName && relation.to !== originalName)
+      ) {
+        return relation;
+      }
       let updatedRelation = { ...relation };
       if (relation.from === originalName) {
         updatedRelation.from = newName;
@@ -173,93 +531,445 @@ const KnowledgeGraphVisualization = () => {
     });
 
     // Update graphData
-    setGraphData({
-      entities: updatedEntities,
-      relations: updatedRelations
-    });
+    updateGraphData(
+      { entities: updatedEntities, relations: updatedRelations },
+      originalName === newName
+        ? `Edit entity "${originalName}"`
+        : `Rename entity "${originalName}" to "${newName}"`
+    );
 
-    // Update stats
-    setStats({
-      entityCount: updatedEntities.length,
-      relationCount: updatedRelations.length,
-      entityTypeCount: new Set(updatedEntities.map((e) => e.entityType)).size,
-      relationTypeCount: new Set(updatedRelations.map((r) => r.relationType)).size,
-    });
+    // A renamed entity keeps its position and pin, and the old name leaves
+    // the selection history
+    if (originalName !== newName) {
+      const previous = nodeMapRef.current.get(originalName);
+      if (previous?.x !== undefined) {
+        pendingPositionsRef.current.set(newName, { x: previous.x, y: previous.y });
+      }
+      if (pinnedNames.has(originalName)) {
+        pinEntities([originalName], false);
+        pinEntities([newName], true);
+      }
+      dispatchHistory({ type: 'remove', name: originalName });
+    }
 
     // Update selected node with new data using dispatch
-    dispatchHistory({ type: 'select', node: editingNodeData });
+    dispatchHistory({
+      type: 'select',
+      node: { ...editingNodeData, id: newName, name: newName, entityType, observations },
+    });
 
     // Exit editing mode
-    console.log('Exiting editing mode...');
     setIsEditing(false);
     setEditingNodeData(null);
+    setEditError("");
+  };
+
+  // Handle deleting the selected entity and its relations
+  const handleDeleteNode = () => {
+    if (!graphData || !selectedNode) return;
+
+    const updated = deleteEntity(
+      graphData,
+      selectedNode.name,
+      deleteRepointTarget || undefined
+    );
+    const relationCount = getRelationsOf(graphIndex, selectedNode.name).length;
+    updateGraphData(
+      updated,
+      `Delete entity "${selectedNode.name}" (${relationCount} relation(s) ${
+        deleteRepointTarget ? "re-pointed" : "dropped"
+      })`
+    );
+    dispatchHistory({ type: 'remove', name: selectedNode.name });
+    // A later entity with the same name shouldn't start out pinned
+    pinEntities([selectedNode.name], false);
+
+    setIsConfirmingDelete(false);
+    setDeleteRepointTarget("");
+  };
+
+  // Handle creating a relation from the add-relation form
+  const handleAddRelation = () => {
+    if (!graphData || !newRelation) return;
+
+    const fields = {
+      from: newRelation.from.trim(),
+      to: newRelation.to.trim(),
+      relationType: newRelation.relationType.trim(),
+    };
+    const names = new Set(graphData.entities.map((e) => e.name));
+    if (!names.has(fields.from) || !names.has(fields.to)) {
+      setRelationError("Source and target must be existing entities.");
+      return;
+    }
+    if (!fields.relationType) {
+      setRelationError("Relation type is required.");
+      return;
+    }
+    if (findRelation(graphData, fields)) {
+      setRelationError("This relation already exists.");
+      return;
+    }
+
+    updateGraphData(
+      addRelation(graphData, fields),
+      `Add relation ${fields.from} —${fields.relationType}→ ${fields.to}`
+    );
+    setNewRelation(null);
+    setRelationError("");
   };
 
-  // Function to parse the JSON file
-  const parseMemoryJson = (content: string) => {
+  // Handle saving a changed relation type
+  const handleSaveRelationType = () => {
+    if (!graphData || !editingRelation) return;
+
+    const relationType = editingRelationType.trim();
+    if (!relationType) {
+      setRelationError("Relation type is required.");
+      return;
+    }
+    const existing = findRelation(graphData, { ...editingRelation, relationType });
+    if (existing && existing !== editingRelation) {
+      setRelationError("This relation already exists.");
+      return;
+    }
+
+    updateGraphData(
+      updateRelation(graphData, editingRelation, { relationType }),
+      `Change relation type "${editingRelation.relationType}" to "${relationType}"`
+    );
+    setEditingRelation(null);
+    setRelationError("");
+  };
+
+  // Handle swapping a relation's source and target
+  const handleReverseRelation = (relation: Relation) => {
+    if (!graphData) return;
+
+    if (
+      relation.from !== relation.to &&
+      findRelation(graphData, { ...relation, from: relation.to, to: relation.from })
+    ) {
+      setRelationError("The reversed relation already exists.");
+      return;
+    }
+
+    updateGraphData(
+      reverseRelation(graphData, relation),
+      `Reverse relation ${relation.from} —${relation.relationType}→ ${relation.to}`
+    );
+    setRelationError("");
+  };
+
+  const handleDeleteRelation = (relation: Relation) => {
+    if (!graphData) return;
+    updateGraphData(
+      removeRelation(graphData, relation),
+      `Delete relation ${relation.from} —${relation.relationType}→ ${relation.to}`
+    );
+    if (editingRelation === relation) setEditingRelation(null);
+    setRelationError("");
+  };
+
+  // Open the new-entity form at a position in graph coordinates,
+  // defaulting to the center of the current view
+  const openNewEntity = (position?: { x: number; y: number }) => {
+    if (readOnly) return;
+    const [x, y] = position
+      ? [position.x, position.y]
+      : transformRef.current.invert([dimensions.width / 2, dimensions.height / 2]);
+    setNewEntity({ name: "", entityType: "", observations: "", x, y });
+    setEntityError("");
+  };
+
+  // Handle creating an entity from the new-entity form
+  const handleCreateEntity = () => {
+    if (!graphData || !newEntity) return;
+
+    const name = newEntity.name.trim();
+    const entityType = newEntity.entityType.trim();
+    if (!name) {
+      setEntityError("Name is required.");
+      return;
+    }
+    if (hasEntity(graphData, name)) {
+      setEntityError(`An entity named "${name}" already exists.`);
+      return;
+    }
+    if (!entityType) {
+      setEntityError("Entity type is required.");
+      return;
+    }
+    const observations = newEntity.observations
+      .split("\n")
+      .map((obs) => obs.trim())
+      .filter(Boolean);
+
+    pendingPositionsRef.current.set(name, { x: newEntity.x, y: newEntity.y });
+    updateGraphData(
+      addEntity(graphData, { name, entityType, observations }),
+      `Create entity "${name}"`
+    );
+    dispatchHistory({
+      type: 'select',
+      node: { id: name, name, entityType, observations, x: newEntity.x, y: newEntity.y },
+    });
+    setNewEntity(null);
+    setEntityError("");
+  };
+
+  // Apply the one-click fix for a health category
+  const handleHealthFix = (category: HealthCategory) => {
+    if (!graphData || !category.fix) return;
+    const updated = category.fix(graphData);
+    updateGraphData(updated, category.fixLabel ?? category.title);
+    forgetMissingEntities(updated);
+  };
+
+  // Open a side panel in place of the current one, or close it if it's open
+  const togglePanel = (panel: SidePanel) =>
+    setActivePanel((current) => (current === panel ? null : panel));
+
+  // Select an entity by name if it has a node in the current view
+  const selectEntity = (name: string) => {
+    const node = nodeMapRef.current.get(name);
+    if (node) {
+      dispatchHistory({ type: 'select', node });
+    }
+  };
+
+  // Parse file or clipboard content and load it as the current graph
+  const loadMemoryJson = (content: string, source: string) => {
     try {
       setIsLoading(true);
-      // Split the content by new lines
-      const lines = content.split("\n").filter((line) => line.trim());
-
-      const entities: Entity[] = [];
-      const relations: Relation[] = [];
-
-      // Parse each line as a separate JSON object
-      lines.forEach((line) => {
-        try {
-          const obj = JSON.parse(line);
-          if (obj.type === "entity") {
-            entities.push(obj as Entity);
-          } else if (obj.type === "relation") {
-            relations.push(obj as Relation);
-          }
-        } catch (err) {
-          console.error("Error parsing line:", line, err);
-        }
-      });
+      loadParsedSources([{ source, ...parseMemoryJson(content) }], "replace");
+    } catch (err) {
+      console.error("Error parsing JSON:", err);
+      setErrorMessage("Error parsing JSON file. Please check the format.");
+      setIsLoading(false);
+    }
+  };
 
-      if (entities.length === 0 && relations.length === 0) {
-        setErrorMessage(
-          "No valid entities or relations found in the file. Please check the format."
-        );
-        setIsLoading(false);
+  // Load parsed sources either as a new graph or merged into the current one.
+  // Each source's entities are tagged with its name; merging records the
+  // result as one undoable edit.
+  const loadParsedSources = (
+    parsed: (SourceReport & { data: GraphData })[],
+    mode: "replace" | "merge"
+  ) => {
+    const base = mode === "merge" ? graphData : null;
+    let data: GraphData | null = base;
+    let conflicts: TypeConflict[] = [];
+
+    parsed.forEach(({ source, data: loaded }) => {
+      if (loaded.entities.length === 0 && loaded.relations.length === 0) return;
+      if (!data) {
+        data = tagSources(loaded, source);
         return;
       }
+      const merged = mergeGraphData(data, loaded, source);
+      data = merged.data;
+      conflicts = mergeTypeConflicts(conflicts, merged.conflicts);
+    });
+
+    const reports = parsed.map(({ source, report }) => ({ source, report }));
+    setParseReports((existing) => (base ? [...existing, ...reports] : reports));
+    setIsLoading(false);
 
-      setGraphData({ entities, relations });
-      setStats({
-        entityCount: entities.length,
-        relationCount: relations.length,
-        entityTypeCount: new Set(entities.map((e) => e.entityType)).size,
-        relationTypeCount: new Set(relations.map((r) => r.relationType)).size,
+    if (!data || data === base) {
+      setErrorMessage(
+        "No valid entities or relations found in the file. Please check the format."
+      );
+      setShowParseReport(reports.some(({ report }) => report.issues.length > 0));
+      return;
+    }
+
+    if (base) {
+      updateGraphData(
+        data,
+        `Merge ${parsed.map(({ source }) => source).join(", ")}`
+      );
+      setTypeConflicts((existing) => mergeTypeConflicts(existing, conflicts));
+    } else {
+      // Restore the arrangement this graph had last time
+      applySavedLayout(loadStoredLayout(data) ?? {});
+      setGraphData(data);
+      dispatchEdits({ type: 'reset' });
+      dispatchHistory({ type: 'reset' });
+      setTypeConflicts(conflicts);
+      setComparison(null);
+    }
+    setShowParseReport(false);
+    setErrorMessage("");
+  };
+
+  // Read, parse and load dropped or selected files
+  const loadFiles = (fileList: FileList | null, mode: "replace" | "merge") => {
+    const files = fileList ? Array.from(fileList) : [];
+    if (files.length === 0) return;
+    if (mode === "merge" && readOnly) {
+      setErrorMessage("Leave compare mode before adding files.");
+      return;
+    }
+    setErrorMessage("");
+
+    // Check that they are JSON files
+    const nonJson = files.find(
+      (file) =>
+        !file.name.endsWith(".json") &&
+        !file.name.endsWith(".jsonl") &&
+        !file.type.includes("json")
+    );
+    if (nonJson) {
+      setErrorMessage(`Please upload JSON files only (${nonJson.name} is not).`);
+      return;
+    }
+
+    setIsLoading(true);
+    Promise.all(
+      files.map((file) =>
+        readFileAsText(file).then((content) => ({
+          source: file.name,
+          ...parseMemoryJson(content),
+        }))
+      )
+    )
+      .then((parsed) => loadParsedSources(parsed, mode))
+      .catch((err) => {
+        console.error("Error reading files:", err);
+        setErrorMessage("Error reading file. Please try again.");
+        setIsLoading(false);
       });
+  };
+
+  // Re-parse a record corrected in the parse report and add it to the graph
+  const handleFixLine = (
+    source: string,
+    issue: ParseIssue,
+    text: string
+  ): string | null => {
+    // Compare mode drops edits, so the record would vanish from the report
+    if (readOnly) return READ_ONLY_HINT;
+    const parsed = parseLine(text);
+    if (parsed.kind === "error") return parsed.reason;
+
+    const fixed: GraphData =
+      parsed.kind === "entity"
+        ? { entities: [parsed.entity], relations: [] }
+        : { entities: [], relations: [parsed.relation] };
+    if (graphData) {
+      const merged = mergeGraphData(graphData, fixed, source);
+      updateGraphData(
+        merged.data,
+        `Fix rejected record ${issue.line} of ${source}`
+      );
+      setTypeConflicts((existing) => mergeTypeConflicts(existing, merged.conflicts));
+    } else {
+      const updated = tagSources(fixed, source);
+      setGraphData(updated);
       setErrorMessage("");
-      setIsLoading(false);
-    } catch (err) {
-      console.error("Error parsing JSON:", err);
-      setErrorMessage("Error parsing JSON file. Please check the format.");
-      setIsLoading(false);
     }
+
+    setParseReports((reports) =>
+      reports.map((entry) =>
+        entry.source === source && entry.report.issues.includes(issue)
+          ? {
+              ...entry,
+              report: {
+                ...entry.report,
+                entityCount:
+                  entry.report.entityCount + (parsed.kind === "entity" ? 1 : 0),
+                relationCount:
+                  entry.report.relationCount + (parsed.kind === "relation" ? 1 : 0),
+                issues: entry.report.issues.filter((i) => i !== issue),
+              },
+            }
+          : entry
+      )
+    );
+    return null;
   };
 
-  // Handle file selection
-  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      setErrorMessage("");
-      const reader = new FileReader();
-      reader.onload = (e: ProgressEvent<FileReader>) => {
-        const content = e.target?.result;
-        if (typeof content === "string") {
-          parseMemoryJson(content);
+  // Load two snapshots and show what changed between them
+  const handleCompare = () => {
+    const { before, after } = compareFiles;
+    if (!before || !after) return;
+    setErrorMessage("");
+    setIsLoading(true);
+
+    Promise.all([readFileAsText(before), readFileAsText(after)])
+      .then(([beforeContent, afterContent]) => {
+        const parsedBefore = parseMemoryJson(beforeContent);
+        const parsedAfter = parseMemoryJson(afterContent);
+        setParseReports([
+          { source: before.name, report: parsedBefore.report },
+          { source: after.name, report: parsedAfter.report },
+        ]);
+        setIsLoading(false);
+
+        const isEmpty = (data: GraphData) =>
+          data.entities.length === 0 && data.relations.length === 0;
+        if (isEmpty(parsedBefore.data) || isEmpty(parsedAfter.data)) {
+          setErrorMessage(
+            "No valid entities or relations found in one of the files. Please check the format."
+          );
+          return;
         }
-      };
-      reader.onerror = () => {
+
+        const diff = diffGraphs(parsedBefore.data, parsedAfter.data);
+        setComparison({
+          diff,
+          beforeName: before.name,
+          afterName: after.name,
+          after: parsedAfter.data,
+        });
+        setGraphData(diff.union);
+        dispatchEdits({ type: 'reset' });
+        dispatchHistory({ type: 'reset' });
+        setTypeConflicts([]);
+      })
+      .catch((err) => {
+        console.error("Error reading files:", err);
         setErrorMessage("Error reading file. Please try again.");
-      };
-      reader.readAsText(file);
-    }
+        setIsLoading(false);
+      });
+  };
+
+  // Leave compare mode, keeping the newer snapshot as the loaded graph
+  const exitComparison = () => {
+    if (!comparison) return;
+    const data = tagSources(comparison.after, comparison.afterName);
+    setComparison(null);
+    setGraphData(data);
+    dispatchEdits({ type: 'reset' });
+    forgetMissingEntities(data);
+  };
+
+  // Pick the entityType for an entity its files disagreed on
+  const handleResolveConflict = (conflict: TypeConflict, entityType: string) => {
+    if (!graphData) return;
+    updateGraphData(
+      {
+        ...graphData,
+        entities: graphData.entities.map((e) =>
+          e.name === conflict.name ? { ...e, entityType } : e
+        ),
+      },
+      `Resolve type of "${conflict.name}" to "${entityType}"`
+    );
+    setTypeConflicts((existing) => existing.filter((c) => c !== conflict));
+  };
+
+  // Handle file selection
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    loadFiles(event.target.files, "replace");
+    event.target.value = "";
+  };
+
+  // Handle adding files to the loaded graph
+  const handleAddFiles = (event: React.ChangeEvent<HTMLInputElement>) => {
+    loadFiles(event.target.files, "merge");
+    event.target.value = "";
   };
 
   // Handle drag events
@@ -272,42 +982,26 @@ const KnowledgeGraphVisualization = () => {
     setIsDragging(false);
   };
 
+  // Dropping on the upload screen loads the files; dropping on the graph
+  // view merges them into the loaded graph
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     setIsDragging(false);
-    setErrorMessage("");
-
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const file = e.dataTransfer.files[0];
-
-      // Check if it's a JSON file
-      if (!file.name.endsWith(".json") && !file.type.includes("json")) {
-        setErrorMessage("Please upload a JSON file.");
-        return;
-      }
-
-      const reader = new FileReader();
-      reader.onload = (e: ProgressEvent<FileReader>) => {
-        const content = e.target?.result;
-        if (typeof content === "string") {
-          parseMemoryJson(content);
-        }
-      };
-      reader.onerror = () => {
-        setErrorMessage("Error reading file. Please try again.");
-      };
-      reader.readAsText(file);
-    }
+    loadFiles(e.dataTransfer.files, graphData ? "merge" : "replace");
   };
 
   // Handle paste from clipboard
   const handlePaste = useCallback((e: ClipboardEvent) => {
+    // Pasting into a form field is just text entry
+    const target = e.target as HTMLElement | null;
+    if (target && target.closest("input, textarea")) return;
+
     const clipboardData = e.clipboardData;
     if (clipboardData) {
       const pastedText = clipboardData.getData("Text");
       if (pastedText) {
         setErrorMessage("");
-        parseMemoryJson(pastedText);
+        loadMemoryJson(pastedText, "clipboard");
       }
     }
   }, []);
@@ -320,64 +1014,390 @@ const KnowledgeGraphVisualization = () => {
     };
   }, [handlePaste]);
 
-  // Get unique entity types and relation types for filters
-  const entityTypes = graphData
-    ? ["All", ...new Set(graphData.entities.map((entity) => entity.entityType))]
-    : ["All"];
+  // Undo/redo shortcuts; text fields keep their native undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && target.closest("input, textarea, select")) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    document.addEventListener("keydown", handleKeyDown);
+    return () => {
+      document.removeEventListener("keydown", handleKeyDown);
+    };
+  }, [editHistory, history, graphData]);
+
+  // Totals across the parse reports of every loaded source
+  const parseReportIssueCount = parseReports.reduce(
+    (sum, { report }) => sum + report.issues.length,
+    0
+  );
+  const parseReportRecordCount = parseReports.reduce(
+    (sum, { report }) => sum + report.recordCount,
+    0
+  );
 
-  const relationTypes = graphData
-    ? [
-        "All",
-        ...new Set(
-          graphData.relations.map((relation) => relation.relationType)
-        ),
-      ]
-    : ["All"];
+  // Merge conflicts whose entity still exists
+  const openTypeConflicts = graphData
+    ? typeConflicts.filter((conflict) =>
+        graphData.entities.some((e) => e.name === conflict.name)
+      )
+    : [];
 
-  // Apply filters to the graph data
-  const getFilteredData = () => {
-    if (!graphData) return { nodes: [] as Node[], links: [] as Link[] };
+  // Integrity checks, re-run whenever the graph changes
+  const healthCategories = useMemo(
+    () => (graphData ? lintGraph(graphData) : []),
+    [graphData]
+  );
+  const healthIssueCount = healthCategories.reduce(
+    (sum, category) => sum + category.issues.length,
+    0
+  );
+
+  // Entity and relation types with the number of entities or relations of each
+  const entityTypeCounts = new Map(
+    [...graphIndex.entitiesByType].map(([type, entities]) => [type, entities.length])
+  );
+  const relationTypeCounts = new Map(
+    [...graphIndex.relationsByType].map(([type, relations]) => [
+      type,
+      relations.length,
+    ])
+  );
+  const entityTypes = [...entityTypeCounts.keys()];
+  const relationTypes = [...relationTypeCounts.keys()];
+
+  // Source files merged into the graph, with a color for each
+  const sources = graphData ? getSources(graphData) : [];
+  const sourceColor = d3.scaleOrdinal<string, string>(d3.schemeTableau10).domain(sources);
+
+  // Centrality, components and communities; only computed while needed, and
+  // in a worker, as betweenness gets slow on large graphs
+  const needsAnalytics =
+    activePanel === "analytics" ||
+    groupFilter !== null ||
+    isAnalyticsMetric(sizeMetric) ||
+    colorModeNeedsAnalytics(colorMode);
+  const [computedAnalytics, setComputedAnalytics] = useState<{
+    data: GraphData;
+    analytics: GraphAnalytics;
+  } | null>(null);
+  useEffect(() => {
+    if (!needsAnalytics || !graphData || computedAnalytics?.data === graphData) {
+      return;
+    }
+    return startGraphAnalytics(graphData, (result) =>
+      setComputedAnalytics({ data: graphData, analytics: result })
+    );
+  }, [needsAnalytics, graphData, computedAnalytics]);
+  // Null while the analytics of the current graph are being computed
+  const analytics =
+    needsAnalytics && computedAnalytics && computedAnalytics.data === graphData
+      ? computedAnalytics.analytics
+      : null;
+  // Node sizes and colors; they only change with analytics they depend on,
+  // so opening the analytics panel doesn't render the graph again
+  const sizeAnalytics = isAnalyticsMetric(sizeMetric) ? analytics : null;
+  const sizeValues = useMemo(
+    () => computeSizeValues(sizeMetric, graphIndex, sizeAnalytics),
+    [sizeMetric, graphIndex, sizeAnalytics]
+  );
+  const colorAnalytics = colorModeNeedsAnalytics(colorMode) ? analytics : null;
+  const nodeColors = useMemo(
+    () => computeNodeColors(colorMode, graphIndex, colorAnalytics),
+    [colorMode, graphIndex, colorAnalytics]
+  );
 
-    // Filter entities based on search term and entity type
-    let filteredEntities = graphData.entities;
+  // Charts of the statistics dashboard
+  const distributions = useMemo(
+    () =>
+      activePanel === "dashboard" && graphData
+        ? computeDistributions(graphData, graphIndex)
+        : null,
+    [activePanel, graphData, graphIndex]
+  );
+  // Meta-graph of entity and relation types
+  const schema = useMemo(
+    () =>
+      activePanel === "schema" && graphData ? inferSchema(graphData, graphIndex) : null,
+    [activePanel, graphData, graphIndex]
+  );
+  const entityTypeColor = useCallback(
+    (type: string) => typeStyles.get(type)?.color ?? "#ccc",
+    [typeStyles]
+  );
+  const relationTypeColor = useCallback(
+    (type: string) => relationStyles.get(type)?.color ?? "#999",
+    [relationStyles]
+  );
+
+  // Show only two entity types and the given relation types between them,
+  // or everything again when exactly those were already shown
+  const handleFilterTypeConnection = (
+    fromType: string,
+    toType: string,
+    connectingTypes: string[]
+  ) => {
+    const shown =
+      !isTypeFilterActive(toggleOnlyTypes(entityTypeFilter, [fromType, toType])) &&
+      !isTypeFilterActive(toggleOnlyTypes(relationTypeFilter, connectingTypes));
+    setEntityTypeFilter(
+      shown ? emptyTypeFilter() : toggleOnlyTypes(emptyTypeFilter(), [fromType, toType])
+    );
+    setRelationTypeFilter(
+      shown ? emptyTypeFilter() : toggleOnlyTypes(emptyTypeFilter(), connectingTypes)
+    );
+  };
 
-    if (searchTerm) {
-      const term = searchTerm.toLowerCase();
+  // Apply filters to the graph data
+  // Names of the entities that pass the entity type, source and group
+  // filters. Filtering only hides nodes, so the layout is kept.
+  const filteredNames = useMemo(() => {
+    if (!graphData) return new Set<string>();
+
+    // Start from the entities of the included types
+    let filteredEntities =
+      entityTypeFilter.include.size === 0
+        ? graphData.entities
+        : [...entityTypeFilter.include].flatMap(
+            (type) => graphIndex.entitiesByType.get(type) ?? []
+          );
+
+    if (entityTypeFilter.exclude.size > 0) {
       filteredEntities = filteredEntities.filter(
-        (entity) =>
-          entity.name.toLowerCase().includes(term) ||
-          entity.entityType.toLowerCase().includes(term) ||
-          entity.observations.some((obs) => obs.toLowerCase().includes(term))
+        (entity) => !entityTypeFilter.exclude.has(entity.entityType)
       );
     }
 
-    if (filterEntityType !== "All") {
-      filteredEntities = filteredEntities.filter(
-        (entity) => entity.entityType === filterEntityType
+    if (filterSource !== "All") {
+      filteredEntities = filteredEntities.filter((entity) =>
+        entity.sources?.includes(filterSource)
       );
     }
 
-    // Get entity names to filter relations
-    const entityNames = new Set(filteredEntities.map((entity) => entity.name));
+    if (groupFilter && analytics) {
+      const groups =
+        groupFilter.kind === "component"
+          ? analytics.component
+          : analytics.communities.community;
+      filteredEntities = filteredEntities.filter(
+        (entity) => groups.get(entity.name) === groupFilter.id
+      );
+    }
 
-    // Filter relations based on relation type and entity names
-    let filteredRelations = graphData.relations.filter(
-      (relation) =>
-        entityNames.has(relation.from) && entityNames.has(relation.to)
+    return new Set(filteredEntities.map((entity) => entity.name));
+  }, [graphData, graphIndex, entityTypeFilter, filterSource, groupFilter, analytics]);
+
+  // Those of them that match the query, or null without a query
+  const queryMatchNames = useMemo(() => {
+    if (!graphData || !activeQuery) return null;
+    return new Set(
+      graphData.entities
+        .filter(
+          (entity) =>
+            filteredNames.has(entity.name) &&
+            matchesQuery(activeQuery.query, entity, graphIndex)
+        )
+        .map((entity) => entity.name)
     );
+  }, [graphData, graphIndex, activeQuery, filteredNames]);
+
+  // Shortest paths between the path finder's entities, or null until both
+  // name known entities
+  const paths = useMemo(() => {
+    const { from, to } = pathEnds;
+    if (
+      !showPathFinder ||
+      !graphIndex.entitiesByName.has(from) ||
+      !graphIndex.entitiesByName.has(to)
+    ) {
+      return null;
+    }
+    return findShortestPaths(graphIndex, from, to, {
+      directed: pathDirected,
+      allowRelation: (relation) =>
+        passesTypeFilter(pathRelationFilter, relation.relationType),
+    });
+  }, [showPathFinder, graphIndex, pathEnds, pathDirected, pathRelationFilter]);
+
+  // Entities and relations of the chosen path, highlighted in the graph
+  const highlightedPath = useMemo(() => {
+    const path = paths?.[selectedPath];
+    if (!path) return null;
+    return {
+      names: new Set(pathEntities(pathEnds.from, path)),
+      relations: new Set(path.map((step) => relationKey(step.relation))),
+    };
+  }, [paths, selectedPath, pathEnds.from]);
+
+  // Neighborhood of the selected entity while in focus mode
+  const neighborhood = useMemo(
+    () =>
+      focusMode && selectedNode
+        ? getNeighborhood(graphIndex, selectedNode.name, focusHops, expandedNames)
+        : null,
+    [focusMode, selectedNode?.name, graphIndex, focusHops, expandedNames]
+  );
 
-    if (filterRelationType !== "All") {
-      filteredRelations = filteredRelations.filter(
-        (relation) => relation.relationType === filterRelationType
-      );
+  // The query hides non-matching entities, or only dims them in highlight
+  // mode; focus mode hides everything outside the neighborhood
+  const visibleNames = useMemo(() => {
+    const names =
+      searchMode === "filter" && queryMatchNames ? queryMatchNames : filteredNames;
+    if (!neighborhood) return names;
+    return new Set([...names].filter((name) => neighborhood.names.has(name)));
+  }, [searchMode, queryMatchNames, filteredNames, neighborhood]);
+  const isNodeOnPath = (node: Node) => highlightedPath?.names.has(node.id) ?? false;
+  // The selected entity and the entities on the path are outlined
+  const isNodeHighlighted = (node: Node) =>
+    node.id === selectedNode?.name || isNodeOnPath(node);
+  const isLinkOnPath = (link: Link) =>
+    highlightedPath?.relations.has(
+      relationKey({ from: link.source.id, to: link.target.id, relationType: link.type })
+    ) ?? false;
+  // Highlighting search matches or a path dims everything else
+  const isNodeDimmed = (node: Node) =>
+    (searchMode === "highlight" &&
+      queryMatchNames !== null &&
+      !queryMatchNames.has(node.id)) ||
+    (highlightedPath !== null && !isNodeOnPath(node));
+  const isLinkDimmed = (link: Link) =>
+    isNodeDimmed(link.source) ||
+    isNodeDimmed(link.target) ||
+    (highlightedPath !== null && !isLinkOnPath(link));
+
+  // Matching entities for the results list, with what matched in each
+  const searchResults = useMemo(() => {
+    if (!activeQuery || !queryMatchNames) return [];
+    return [...queryMatchNames].slice(0, MAX_SEARCH_RESULTS).map((name) => {
+      const entity = graphIndex.entitiesByName.get(name);
+      return {
+        entity,
+        matches: findQueryMatches(activeQuery.query, entity, graphIndex),
+      };
+    });
+  }, [graphIndex, activeQuery, queryMatchNames]);
+
+  // Links are shown when both ends are visible and the relation type passes
+  // the filter. The highlighted path is shown whatever the filters.
+  const isLinkVisible = (link: Link) =>
+    (visibleNames.has(link.source.id) &&
+      visibleNames.has(link.target.id) &&
+      passesTypeFilter(relationTypeFilter, link.type)) ||
+    isLinkOnPath(link);
+
+  // Counters for the part of the graph that passes the filters, or null
+  // when nothing is filtered. In highlight mode they count the matches.
+  const visibleStats = useMemo(() => {
+    const countedNames =
+      searchMode === "highlight" && queryMatchNames
+        ? new Set([...visibleNames].filter((name) => queryMatchNames.has(name)))
+        : visibleNames;
+    if (
+      !graphData ||
+      (countedNames === filteredNames &&
+        !isTypeFilterActive(entityTypeFilter) &&
+        !isTypeFilterActive(relationTypeFilter) &&
+        filterSource === "All" &&
+        !groupFilter)
+    ) {
+      return null;
     }
+    const visibleData = {
+      entities: graphData.entities.filter((entity) => countedNames.has(entity.name)),
+      relations: graphData.relations.filter(
+        (relation) =>
+          countedNames.has(relation.from) &&
+          countedNames.has(relation.to) &&
+          passesTypeFilter(relationTypeFilter, relation.relationType)
+      ),
+    };
+    return computeStats(visibleData, buildGraphIndex(visibleData));
+  }, [
+    graphData,
+    visibleNames,
+    filteredNames,
+    searchMode,
+    queryMatchNames,
+    entityTypeFilter,
+    relationTypeFilter,
+    filterSource,
+    groupFilter,
+  ]);
+
+  // "visible / total" while filtering, otherwise just the total
+  const statLabel = (key: keyof Stats) =>
+    visibleStats ? `${visibleStats[key]} / ${stats[key]}` : `${stats[key]}`;
+
+  const isNodeVisible = (node: Node) => visibleNames.has(node.id) || isNodeOnPath(node);
+
+  // Boundary entities of the focused neighborhood can be expanded
+  const isNodeExpandable = (node: Node) => neighborhood?.boundary.has(node.id) ?? false;
+
+  // Pull the neighbors of boundary entities into the focused view, listing
+  // each expanded entity once
+  const expandNames = (names: Iterable<string>) =>
+    setExpandedNames((current) => [...new Set([...current, ...names])]);
+  // Expand one boundary entity; false when there is nothing to expand
+  const expandEntity = (name: string) => {
+    if (!neighborhood?.boundary.has(name)) return false;
+    expandNames([name]);
+    return true;
+  };
+  const expandEntityRef = useRef(expandEntity);
+  expandEntityRef.current = expandEntity;
+
+  // The radial layout is centered on the selected entity
+  const layoutSettings: LayoutSettings = {
+    mode: layoutMode,
+    direction: hierarchyDirection,
+    focus: layoutMode === "radial" ? selectedNode?.name ?? null : null,
+  };
+  const layoutSettingsRef = useRef(layoutSettings);
+  layoutSettingsRef.current = layoutSettings;
+
+  // Read by the render effect, which doesn't rerun when the filters change
+  const visibilityRef = useRef({
+    isNodeVisible,
+    isLinkVisible,
+    isNodeDimmed,
+    isLinkDimmed,
+    isNodeHighlighted,
+    isLinkOnPath,
+    isNodeExpandable,
+    linkLabelMinZoom,
+  });
+  visibilityRef.current = {
+    isNodeVisible,
+    isLinkVisible,
+    isNodeDimmed,
+    isLinkDimmed,
+    isNodeHighlighted,
+    isLinkOnPath,
+    isNodeExpandable,
+    linkLabelMinZoom,
+  };
+
+  // Build a node for every entity and a link for every relation between them
+  const getGraphElements = () => {
+    if (!graphData) return { nodes: [] as Node[], links: [] as Link[] };
 
-    // Create nodes from filtered entities
-    const nodes: Node[] = filteredEntities.map((entity) => ({
+    // Create nodes from entities
+    const nodes: Node[] = graphData.entities.map((entity) => ({
       id: entity.name,
       name: entity.name,
       entityType: entity.entityType,
       observations: entity.observations,
+      sources: entity.sources,
       // Add these properties to satisfy SimulationNodeDatum
       index: undefined,
       x: undefined,
@@ -388,7 +1408,7 @@ const KnowledgeGraphVisualization = () => {
       fy: undefined,
     }));
 
-    // Create links from filtered relations with proper typing
+    // Create links from relations with proper typing
     const links: Link[] = [];
 
     // First create all nodes to ensure they exist
@@ -396,7 +1416,7 @@ const KnowledgeGraphVisualization = () => {
     nodes.forEach((node) => nodeMap.set(node.id, node));
 
     // Then create links with proper source and target references
-    filteredRelations.forEach((relation) => {
+    graphData.relations.forEach((relation) => {
       const source = nodeMap.get(relation.from);
       const target = nodeMap.get(relation.to);
 
@@ -447,7 +1467,7 @@ const KnowledgeGraphVisualization = () => {
 
   // D3 force graph
   useEffect(() => {
-    if (!graphData || !svgRef.current) {
+    if (!graphData || !svgRef.current || !canvasRef.current) {
       console.log("Skipping graph render due to missing graph data or SVG ref");
       return;
     }
@@ -462,15 +1482,347 @@ const KnowledgeGraphVisualization = () => {
 
     console.log("Rendering graph with dimensions:", dimensions);
 
-    const { nodes, links } = getFilteredData();
+    const { nodes, links } = getGraphElements();
     // Store nodes and lookup map for navigation and recentering
+    // Keep positions from the previous render, and place newly created
+    // entities and restored layouts where they belong. Pinned nodes stay put.
+    nodes.forEach((node) => {
+      const previous =
+        pendingPositionsRef.current.get(node.id) ?? nodeMapRef.current.get(node.id);
+      if (previous) {
+        node.x = previous.x;
+        node.y = previous.y;
+        if (pinnedRef.current.has(node.id)) {
+          node.fx = previous.x;
+          node.fy = previous.y;
+        }
+      }
+    });
+    pendingPositionsRef.current.clear();
     nodesRef.current = nodes;
     nodeMapRef.current = new Map(nodes.map((node) => [node.id, node]));
+
+    // Large graphs are drawn on a canvas instead of as SVG elements
+    const useCanvas =
+      rendererMode === "canvas" ||
+      (rendererMode === "auto" && nodes.length > canvasThreshold);
+    setActiveRenderer(useCanvas ? "canvas" : "svg");
     if (nodes.length === 0) return;
 
     const width = dimensions.width;
     const height = dimensions.height;
 
+    // Calculate node degrees and add to nodes
+    nodes.forEach(node => {
+      node.degree =
+        getInDegree(graphIndex, node.id) + getOutDegree(graphIndex, node.id);
+    });
+
+    // Scale node size by the chosen metric
+    const [minSize, maxSize] = d3.extent(nodes, (d) => sizeValues.get(d.id) ?? 0);
+
+    const sizeScale = d3.scaleLinear()
+      .domain([minSize, maxSize])
+      .range([6, 20]); // Node radius range
+
+    // In compare mode links are colored by change status
+    const linkStatus = (d: Link) =>
+      comparison?.diff.relationStatus.get(
+        relationKey({ from: d.source.id, to: d.target.id, relationType: d.type })
+      ) ?? "unchanged";
+
+    // Node and link styling shared by the SVG and canvas renderers
+    const style: GraphStyle = {
+      radius: (d) => sizeScale(sizeValues.get(d.id) ?? 0),
+      nodeFill: (d) => {
+        if (comparison) {
+          return changeStatusColors[
+            comparison.diff.entityStatus.get(d.name) ?? "unchanged"
+          ];
+        }
+        if (colorBySource) {
+          return sourceColor(d.sources?.[0] ?? "");
+        }
+        if (nodeColors) {
+          return nodeColors.get(d.id) ?? "#ccc";
+        }
+        return typeStyles.get(d.entityType)?.color ?? "#ccc";
+      },
+      shape: (d) => typeStyles.get(d.entityType)?.shape ?? "circle",
+      // Entities merged from several files get a dark outline
+      nodeStroke: (d) =>
+        colorBySource && (d.sources?.length ?? 0) > 1 ? "#333" : "#fff",
+      nodeStrokeWidth: (d) =>
+        colorBySource && (d.sources?.length ?? 0) > 1 ? 2.5 : 1.5,
+      linkStroke: (d) =>
+        comparison
+          ? linkStatus(d) === "unchanged"
+            ? "#999"
+            : changeStatusColors[linkStatus(d)]
+          : relationStyles.get(d.type)?.color ?? "#999",
+      linkOpacity: (d) => (linkStatus(d) === "unchanged" ? 0.6 : 0.9),
+      linkDash: (d) => {
+        if (comparison) return linkStatus(d) === "removed" ? [5, 4] : null;
+        return relationStyles.get(d.type)?.dashed ? DASH_PATTERN : null;
+      },
+      linkLabelFill: (d) =>
+        comparison ? "#666" : relationStyles.get(d.type)?.color ?? "#666",
+      pinned: (d) => pinnedRef.current.has(d.id),
+    };
+
+    // Open the add-relation form for a pair connected by shift-dragging
+    const connectNodes = (source: Node, target: Node | undefined) => {
+      if (target && target !== source && !comparison) {
+        dispatchHistory({ type: 'select', node: source });
+        setNewRelation({
+          from: source.name,
+          to: target.name,
+          relationType: "",
+        });
+      }
+    };
+
+    // Filters only hide nodes and links; the nodes currently shown. Links
+    // are curved apart only from the other links shown between their pair.
+    let visibleNodes = nodes;
+    let visibleLinks = links;
+    let linkOffsets = new Map<Link, number>();
+    const updateVisibleElements = () => {
+      const { isNodeVisible, isLinkVisible } = visibilityRef.current;
+      visibleNodes = nodes.filter(isNodeVisible);
+      visibleLinks = links.filter(isLinkVisible);
+      linkOffsets = computeLinkOffsets(visibleLinks);
+    };
+    updateVisibleElements();
+
+    // The selected layout: force layouts run in the worker, the others are
+    // computed here and animated into place
+    let render = () => {};
+    let forceLayout: ForceLayout | null = null;
+    let transition: d3.Timer | null = null;
+    let appliedLayout = "";
+
+    // Remember the arrangement of this graph once the nodes settle
+    const layoutData = comparison ? null : graphData;
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+    let saveFailed = false;
+    const scheduleSave = () => {
+      if (!layoutData) return;
+      clearTimeout(saveTimer);
+      saveTimer = setTimeout(() => {
+        const stored = storeLayout(layoutData, captureLayout(nodes, pinnedRef.current));
+        // Say so once rather than after every drag
+        if (!stored && !saveFailed) {
+          setErrorMessage(
+            "The layout could not be remembered because browser storage is full. Export the positions to keep it."
+          );
+        }
+        saveFailed = !stored;
+      }, 1000);
+    };
+    const onFrame = () => {
+      render();
+      scheduleSave();
+    };
+
+    const runLayout = (alpha?: number) => {
+      const { mode, direction, focus } = layoutSettingsRef.current;
+      appliedLayout = layoutKey(layoutSettingsRef.current);
+      forceLayout?.stop();
+      forceLayout = null;
+      transition?.stop();
+      if (mode === "force" || mode === "clustered") {
+        forceLayout = startForceLayout(nodes, links, {
+          width,
+          height,
+          radius: style.radius,
+          onTick: onFrame,
+          clusterByType: mode === "clustered",
+          alpha,
+        });
+        return;
+      }
+      const targets = computeStaticLayout(mode, nodes, links, {
+        center: { x: width / 2, y: height / 2 },
+        focus: focus ? nodeMapRef.current.get(focus) ?? null : null,
+        direction,
+      });
+      nodes.forEach((node) => {
+        if (node.fx != null) targets.delete(node);
+      });
+      transition = animatePositions(nodes, targets, onFrame);
+    };
+    applyLayoutRef.current = () => {
+      if (layoutKey(layoutSettingsRef.current) !== appliedLayout) runLayout(0.8);
+    };
+    // Dragging moves the node in the simulation, or just moves it when the
+    // layout isn't simulated
+    const setDragging = (active: boolean) =>
+      forceLayout?.setAlphaTarget(active ? 0.3 : 0);
+    const moveNode = (node: Node, x: number | null, y: number | null) => {
+      if (forceLayout) {
+        forceLayout.fix(node, x, y);
+      } else if (x !== null && y !== null) {
+        transition?.stop();
+        node.x = x;
+        node.y = y;
+      }
+      onFrame();
+    };
+    // Fix pinned nodes where they are and let the others move again
+    applyPinsRef.current = () => {
+      let released = false;
+      nodes.forEach((node) => {
+        const pinned = pinnedRef.current.has(node.id);
+        if (pinned === (node.fx != null) || node.x === undefined) return;
+        const [x, y] = pinned ? [node.x, node.y] : [null, null];
+        if (forceLayout) forceLayout.fix(node, x, y);
+        else [node.fx, node.fy] = [x, y];
+        released ||= !pinned;
+      });
+      if (released) forceLayout?.reheat(0.3);
+      onFrame();
+    };
+    const stopLayout = () => {
+      forceLayout?.stop();
+      transition?.stop();
+      clearTimeout(saveTimer);
+      applyLayoutRef.current = null;
+      applyPinsRef.current = null;
+    };
+
+    if (useCanvas) {
+      const canvas = canvasRef.current;
+      const context = setupCanvas(canvas, width, height);
+      if (!context) return;
+      d3.select(svgRef.current).selectAll("*").remove();
+
+      let hovered: Node | undefined;
+      let connectLine: CanvasFrame["connectLine"] = null;
+      const draw = () =>
+        drawGraph(context, width, height, visibleNodes, visibleLinks, style, {
+          transform: transformRef.current,
+          highlighted: new Set([
+            ...(hovered ? [hovered] : []),
+            ...visibleNodes.filter(visibilityRef.current.isNodeHighlighted),
+          ]),
+          connectLine,
+          linkLabelMinZoom:
+            visibilityRef.current.linkLabelMinZoom ?? LINK_LABEL_MIN_ZOOM,
+          linkOffsets,
+          isNodeDimmed: visibilityRef.current.isNodeDimmed,
+          isLinkDimmed: visibilityRef.current.isLinkDimmed,
+          isLinkHighlighted: visibilityRef.current.isLinkOnPath,
+          isExpandable: visibilityRef.current.isNodeExpandable,
+        });
+      const nodeAt = (event: Event) => {
+        const [x, y] = transformRef.current.invert(d3.pointer(event, canvas));
+        return findNodeAt(visibleNodes, x, y, style.radius);
+      };
+      render = draw;
+      runLayout();
+      applyVisibilityRef.current = () => {
+        updateVisibleElements();
+        draw();
+      };
+
+      // Drag must be registered before zoom so dragging a node doesn't pan
+      let connecting = false;
+      const dragBehavior = d3
+        .drag<HTMLCanvasElement, unknown>()
+        .subject((event) => nodeAt(event.sourceEvent))
+        .on("start", (event) => {
+          const subject = event.subject as Node;
+          connecting = event.sourceEvent.shiftKey;
+          if (connecting) {
+            connectLine = { x1: subject.x, y1: subject.y, x2: subject.x, y2: subject.y };
+            draw();
+            return;
+          }
+          if (!event.active) setDragging(true);
+          moveNode(subject, subject.x, subject.y);
+        })
+        .on("drag", (event) => {
+          const subject = event.subject as Node;
+          const [x, y] = transformRef.current.invert(
+            d3.pointer(event.sourceEvent, canvas)
+          );
+          if (connecting) {
+            connectLine = { ...connectLine, x2: x, y2: y };
+            draw();
+            return;
+          }
+          moveNode(subject, x, y);
+        })
+        .on("end", (event) => {
+          const subject = event.subject as Node;
+          if (connecting) {
+            connectLine = null;
+            connectNodes(subject, nodeAt(event.sourceEvent));
+            draw();
+            return;
+          }
+          // Dropped nodes stay where they were put
+          if (!event.active) setDragging(false);
+          pinEntities([subject.id], true);
+        });
+
+      const zoomBehavior = d3
+        .zoom<Element, unknown>()
+        .extent([
+          [0, 0],
+          [width, height],
+        ])
+        .scaleExtent([0.1, 8])
+        .on("zoom", (event) => {
+          transformRef.current = event.transform;
+          draw();
+        });
+      zoomBehaviorRef.current = zoomBehavior;
+      zoomTargetRef.current = canvas;
+
+      const canvasSel = d3.select(canvas);
+      canvasSel
+        .call(dragBehavior)
+        .call(zoomBehavior)
+        .call(zoomBehavior.transform, transformRef.current)
+        .on("dblclick.zoom", null)
+        // Click a node to select it, or empty space to deselect
+        .on("click", (event) => {
+          const node = nodeAt(event);
+          if (node && event.altKey && expandEntityRef.current(node.id)) return;
+          dispatchHistory(node ? { type: 'select', node } : { type: 'clear' });
+        })
+        // Double-click on empty space creates an entity there
+        .on("dblclick", (event) => {
+          if (nodeAt(event)) return;
+          const [x, y] = transformRef.current.invert(d3.pointer(event, canvas));
+          openNewEntity({ x, y });
+        })
+        // Hovering shows the node's label and a tooltip
+        .on("mousemove", (event) => {
+          const node = nodeAt(event);
+          if (node === hovered) return;
+          hovered = node;
+          canvas.style.cursor = node ? "pointer" : "default";
+          canvas.title = node ? `${node.name} (${node.entityType})` : "";
+          draw();
+        });
+
+      draw();
+
+      return () => {
+        stopLayout();
+        applyVisibilityRef.current = null;
+        canvasSel
+          .on(".drag", null)
+          .on(".zoom", null)
+          .on("click", null)
+          .on("dblclick", null)
+          .on("mousemove", null);
+      };
+    }
+
     // Clear previous graph
     const svgElement = svgRef.current;
     d3.select(svgElement).selectAll("*").remove();
@@ -490,7 +1842,7 @@ const KnowledgeGraphVisualization = () => {
     // Add zoom functionality with controllable behavior
     const g = svg.append("g");
     const zoomBehavior = d3
-      .zoom<SVGSVGElement, unknown>()
+      .zoom<Element, unknown>()
       .extent([
         [0, 0],
         [width, height],
@@ -499,15 +1851,35 @@ const KnowledgeGraphVisualization = () => {
       .on("zoom", (event) => {
         g.attr("transform", event.transform);
         transformRef.current = event.transform;
+        updateLinkLabels();
       });
+    // Hide link labels while zoomed out past the chosen threshold
+    const updateLinkLabels = () => {
+      const { linkLabelMinZoom } = visibilityRef.current;
+      linkLabels.style(
+        "display",
+        linkLabelMinZoom !== null && transformRef.current.k < linkLabelMinZoom
+          ? "none"
+          : null
+      );
+    };
     zoomBehaviorRef.current = zoomBehavior;
-    svg.call(zoomBehavior as any);
-
-    // Arrow marker for the links
+    zoomTargetRef.current = svgElement;
+    svg.call(zoomBehavior);
+
+    // Arrow markers for the links, one per link color
+    const markerColors = [
+      ...new Set(links.map(style.linkStroke)),
+      "#9370db",
+      PATH_COLOR,
+    ];
+    const markerIds = new Map(markerColors.map((color, i) => [color, `arrowhead-${i}`]));
     svg
       .append("defs")
-      .append("marker")
-      .attr("id", "arrowhead")
+      .selectAll("marker")
+      .data(markerColors)
+      .join("marker")
+      .attr("id", (color) => markerIds.get(color))
       .attr("viewBox", "0 -5 10 10")
       .attr("refX", 10) // Path tip is at x=10, so refX=10 makes tip align with line end
       .attr("refY", 0)
@@ -515,71 +1887,32 @@ const KnowledgeGraphVisualization = () => {
       .attr("markerHeight", 6)
       .attr("orient", "auto")
       .append("path")
-      .attr("fill", "#999")
+      .attr("fill", (color) => color)
       .attr("d", "M0,-5L10,0L0,5"); // Standard arrow path
 
-    // Calculate node degrees and add to nodes
-    const nodeDegrees = new Map<string, number>();
-    nodes.forEach(node => {
-      const { inbound, outbound } = getRelationCounts(node.id);
-      node.degree = inbound + outbound;
-      nodeDegrees.set(node.name, node.degree);
-    });
-
-    // Create scales for node size and color based on degree
-    const maxDegree = Math.max(...nodes.map(d => d.degree || 0));
-    const minDegree = Math.min(...nodes.map(d => d.degree || 0));
-    
-    const sizeScale = d3.scaleLinear()
-      .domain([minDegree, maxDegree])
-      .range([6, 20]); // Node radius range
-    
-    const colorScale = d3.scaleLinear()
-      .domain([minDegree, maxDegree])
-      .range([0.3, 1.0]); // Color intensity range
-
-    // Create the force simulation with improved spacing
-    const simulation = d3
-      .forceSimulation<Node>(nodes)
-      .force(
-        "link",
-        d3
-          .forceLink<Node, Link>(links)
-          .id((d) => d.id)
-          .distance(180) // Increased distance to reduce overlap
-      )
-      .force("charge", d3.forceManyBody<Node>().strength(-800)) // Stronger repulsion
-      .force("center", d3.forceCenter<Node>(width / 2, height / 2))
-      .force("x", d3.forceX<Node>())
-      .force("y", d3.forceY<Node>())
-      .force("collision", d3.forceCollide<Node>().radius((d) => sizeScale(d.degree) + 5)); // Dynamic collision detection
-
     // Create the links
     const link = g
       .append("g")
-      .attr("stroke", "#999")
-      .attr("stroke-opacity", 0.6)
       .selectAll("path")
       .data(links)
       .join("path")
-      .attr("marker-end", "url(#arrowhead)") // Use the single defined arrowhead
-
+      .attr("stroke", style.linkStroke)
+      .attr("stroke-opacity", style.linkOpacity)
+      .attr("stroke-dasharray", (d) => style.linkDash(d)?.join(" ") ?? null)
+      .attr("marker-end", (d) => `url(#${markerIds.get(style.linkStroke(d))})`)
       .attr("fill", "none");
 
     // Add link labels with collision avoidance
-    const linkText = g
-      .append("g")
+    const linkLabels = g.append("g");
+    const linkText = linkLabels
       .selectAll("text")
       .data(links)
       .join("text")
       .text((d) => d.type)
       .attr("font-size", 10)
       .attr("text-anchor", "middle")
-      .attr("dy", (d, i) => {
-        // Alternate between above and below the line for better separation
-        return i % 2 === 0 ? -5 : 8; 
-      })
-      .attr("fill", "#666")
+      .attr("dy", -4)
+      .attr("fill", style.linkLabelFill)
       .attr("opacity", 0.8);
 
     // Create a group for each node
@@ -589,46 +1922,37 @@ const KnowledgeGraphVisualization = () => {
       .data(nodes)
       .join("g")
       .attr("class", "node")
-      .call(drag(simulation) as any) // Type assertion needed for D3 drag
+      .call(drag() as any) // Type assertion needed for D3 drag
       .on("click", (event, d) => {
+        event.stopPropagation();
+        // Alt+click expands a boundary node in focus mode
+        if (event.altKey && expandEntityRef.current(d.id)) return;
         // Select node and record history
         dispatchHistory({ type: 'select', node: d });
-        event.stopPropagation();
       });
 
-    // Add circles to nodes with dynamic size and color
+    // Add shapes to nodes with dynamic size and color
     node
+      .append("path")
+      .attr("d", (d) => nodeShapePath(style.shape(d), style.radius(d)))
+      .attr("fill", style.nodeFill)
+      .attr("stroke", style.nodeStroke)
+      .attr("stroke-width", style.nodeStrokeWidth);
+
+    // Marker shown on pinned nodes
+    const pinMarker = node
       .append("circle")
-      .attr("r", (d) => sizeScale(d.degree))
-      .attr("fill", (d) => {
-        // Generate a color based on entity type with dynamic intensity
-        // const typeColors: Record<string, string> = {
-        //   Memory: "#ff8c00",
-        //   Research: "#9370db",
-        //   System: "#3cb371",
-        //   FileCategories: "#4682b4",
-        //   ScanRecord: "#cd5c5c",
-        //   FileGroup: "#20b2aa",
-        //   ActionPlan: "#ff6347",
-        //   PatternLibrary: "#9acd32",
-        //   UserPreference: "#ff69b4",
-        //   Project: "#1e90ff",
-        //   Use_Case: "#ff7f50",
-        //   Strategy: "#8a2be2",
-        // };
-        // const baseColor = typeColors[d.entityType] || "#ccc";
-        // const intensity = colorScale(d.degree);
-        // Interpolate between white and the base color based on intensity
-        // return d3.interpolate("#ffffff", baseColor)(intensity);
-        return d.degree > 0 ? "#4593c3" : "#e27171";
-      })
+      .attr("r", 3.5)
+      .attr("cx", (d) => pinOffset(style.radius(d)))
+      .attr("cy", (d) => -pinOffset(style.radius(d)))
+      .attr("fill", PIN_COLOR)
       .attr("stroke", "#fff")
-      .attr("stroke-width", 1.5);
+      .style("pointer-events", "none");
 
     // Add labels to nodes with dynamic positioning based on node size
     node
       .append("text")
-      .attr("dx", (d) => sizeScale(d.degree) + 8) // Position text outside the node radius
+      .attr("dx", (d) => style.radius(d) + 8) // Position text outside the node radius
       .attr("dy", ".35em")
       .text((d) => d.name)
       .attr("font-size", 11)
@@ -641,85 +1965,124 @@ const KnowledgeGraphVisualization = () => {
     node.append("title").text((d) => `${d.name} (${d.entityType})`);
 
     // Update positions on simulation tick
-    simulation.on("tick", () => {
+    const ticked = () => {
+      // Multi-edges are curved apart and self-loops drawn as loops; hidden
+      // links are laid out again once they are shown
+      const geometries = new Map(
+        visibleLinks.map((d) => [d, linkGeometry(d, linkOffsets.get(d) ?? 0, style.radius)])
+      );
       link.attr("d", (d) => {
-        if (
-          d.source.x === undefined ||
-          d.source.y === undefined ||
-          d.target.x === undefined ||
-          d.target.y === undefined
-        )
-          return "";
-
-        const dx = d.target.x - d.source.x;
-        const dy = d.target.y - d.source.y;
-        const dr = Math.sqrt(dx * dx + dy * dy);
-        
-        // Calculate source and target node radii
-        const sourceRadius = sizeScale(nodeDegrees.get(d.source.name) || 0);
-        const targetRadius = sizeScale(nodeDegrees.get(d.target.name) || 0);
-        
-        // Calculate unit vector from source to target
-        const unitX = dx / dr;
-        const unitY = dy / dr;
-        
-        // Calculate start and end points at node edges
-        const startX = d.source.x + unitX * sourceRadius;
-        const startY = d.source.y + unitY * sourceRadius;
-        const endX = d.target.x - unitX * targetRadius;
-        const endY = d.target.y - unitY * targetRadius;
-        
-        return `M${startX},${startY}L${endX},${endY}`;
+        const geometry = geometries.get(d);
+        return geometry ? curvePath(geometry.curve) : "";
       });
 
+      // Labels follow their link, turned so they never read upside down
       linkText.attr("transform", (d) => {
-        if (
-          d.source.x === undefined ||
-          d.source.y === undefined ||
-          d.target.x === undefined ||
-          d.target.y === undefined
-        )
-          return "";
-
-        const dx = d.target.x - d.source.x;
-        const dy = d.target.y - d.source.y;
-        // Position text closer to the target node (75% along the link)
-        const x = d.source.x + dx * 0.7;
-        const y = d.source.y + dy * 0.7;
-        let angle = (Math.atan2(dy, dx) * 180) / Math.PI;
-        
-        // Prevent text from being upside down by adjusting angle
-        // If angle is greater than 90 or less than -90, flip it by 180 degrees
-        if (angle > 90 || angle < -90) {
-          angle += 180;
-        }
-        
-        return `translate(${x},${y}) rotate(${angle})`;
+        const label = geometries.get(d)?.label;
+        if (!label) return "";
+        return `translate(${label.x},${label.y}) rotate(${(label.angle * 180) / Math.PI})`;
       });
 
       node.attr("transform", (d) => {
         if (d.x === undefined || d.y === undefined) return "";
         return `translate(${d.x},${d.y})`;
       });
-    });
+      pinMarker.style("display", (d) => (style.pinned(d) ? null : "none"));
+    };
+    render = ticked;
+    runLayout();
+
+    // Hide the nodes and links that don't pass the filters
+    applyVisibilityRef.current = () => {
+      updateVisibleElements();
+      const {
+        isNodeVisible,
+        isLinkVisible,
+        isNodeDimmed,
+        isLinkDimmed,
+        isNodeHighlighted,
+        isLinkOnPath,
+        isNodeExpandable,
+      } = visibilityRef.current;
+      node
+        .style("display", (d) => (isNodeVisible(d) ? null : "none"))
+        .style("opacity", (d) => (isNodeDimmed(d) ? DIMMED_OPACITY : null));
+      node
+        .select("path")
+        .attr("stroke", (d) => (isNodeHighlighted(d) ? "#9370db" : style.nodeStroke(d)))
+        .attr("stroke-width", (d) =>
+          isNodeHighlighted(d) ? 3 : style.nodeStrokeWidth(d)
+        )
+        .attr("stroke-dasharray", (d) => (isNodeExpandable(d) ? EXPANDABLE_DASH : null));
+      link
+        .style("display", (d) => (isLinkVisible(d) ? null : "none"))
+        .style("opacity", (d) => (isLinkDimmed(d) ? DIMMED_OPACITY : null))
+        .attr("stroke", (d) => (isLinkOnPath(d) ? PATH_COLOR : style.linkStroke(d)))
+        .attr("stroke-width", (d) => (isLinkOnPath(d) ? 3 : null))
+        .attr("marker-end", (d) =>
+          `url(#${markerIds.get(isLinkOnPath(d) ? PATH_COLOR : style.linkStroke(d))})`
+        );
+      linkText
+        .style("display", (d) => (isLinkVisible(d) ? null : "none"))
+        .style("opacity", (d) => (isLinkDimmed(d) ? DIMMED_OPACITY : null));
+      updateLinkLabels();
+      // Redraw the links with their new offsets
+      ticked();
+    };
+    applyVisibilityRef.current();
+
+    // Keep the current view when the graph is re-rendered
+    svg.call(zoomBehavior.transform, transformRef.current);
+
+    // Temporary line shown while shift-dragging from one node to another
+    const connectLine = g
+      .append("line")
+      .attr("stroke", "#9370db")
+      .attr("stroke-width", 2)
+      .attr("stroke-dasharray", "4 3")
+      .attr("marker-end", `url(#${markerIds.get("#9370db")})`)
+      .style("pointer-events", "none")
+      .style("display", "none");
+
+    // Drag functionality; holding Shift connects nodes instead of moving them
+    function drag() {
+      let connecting = false;
 
-    // Drag functionality
-    function drag(simulation: d3.Simulation<Node, undefined>) {
       function dragstarted(event: d3.D3DragEvent<Element, Node, Node>) {
-        if (!event.active) simulation.alphaTarget(0.3).restart();
-        event.subject.fx = event.subject.x;
-        event.subject.fy = event.subject.y;
+        connecting = event.sourceEvent.shiftKey;
+        if (connecting) {
+          connectLine
+            .attr("x1", event.subject.x)
+            .attr("y1", event.subject.y)
+            .attr("x2", event.x)
+            .attr("y2", event.y)
+            .style("display", null);
+          return;
+        }
+        if (!event.active) setDragging(true);
+        moveNode(event.subject, event.subject.x, event.subject.y);
       }
 
       function dragged(event: d3.D3DragEvent<Element, Node, Node>) {
-        event.subject.fx = event.x;
-        event.subject.fy = event.y;
+        if (connecting) {
+          connectLine.attr("x2", event.x).attr("y2", event.y);
+          return;
+        }
+        moveNode(event.subject, event.x, event.y);
       }
 
       function dragended(event: d3.D3DragEvent<Element, Node, Node>) {
-        if (!event.active) simulation.alphaTarget(0);
-        event.subject.fx = null;
-        event.subject.fy = null;
+        if (connecting) {
+          connectLine.style("display", "none");
+          connectNodes(
+            event.subject,
+            findNodeAt(visibleNodes, event.x, event.y, style.radius)
+          );
+          return;
+        }
+        // Dropped nodes stay where they were put
+        if (!event.active) setDragging(false);
+        pinEntities([event.subject.id], true);
       }
 
       return d3
@@ -734,14 +2097,90 @@ const KnowledgeGraphVisualization = () => {
       dispatchHistory({ type: 'clear' });
     });
 
+    // Double-click on empty space creates an entity there
+    svg.on("dblclick.zoom", null);
+    svg.on("dblclick", (event) => {
+      if (event.target !== svgElement) return;
+      const [x, y] = transformRef.current.invert(d3.pointer(event, svgElement));
+      openNewEntity({ x, y });
+    });
+
     return () => {
-      simulation.stop();
+      stopLayout();
+      applyVisibilityRef.current = null;
     };
-  }, [graphData, searchTerm, filterEntityType, filterRelationType, dimensions]);
+  }, [
+    graphData,
+    colorBySource,
+    comparison,
+    rendererMode,
+    canvasThreshold,
+    layoutVersion,
+    typeStyles,
+    relationStyles,
+    sizeValues,
+    nodeColors,
+    dimensions,
+  ]);
   
+  useEffect(() => {
+    applyPinsRef.current?.();
+  }, [pinnedNames]);
+
+  // Animate to the new arrangement when the layout settings change
+  useEffect(() => {
+    applyLayoutRef.current?.();
+  }, [layoutKey(layoutSettings)]);
+
+  // Show, hide or outline elements when the filters or the selection change,
+  // without a new layout
+  useEffect(() => {
+    applyVisibilityRef.current?.();
+  }, [
+    visibleNames,
+    queryMatchNames,
+    searchMode,
+    neighborhood,
+    highlightedPath,
+    relationTypeFilter,
+    linkLabelMinZoom,
+    selectedNode?.name,
+  ]);
+
+  // Show the first of the shortest paths whenever they change
+  useEffect(() => {
+    setSelectedPath(0);
+  }, [paths]);
+
+  // Expansions belong to the entity the neighborhood was centered on
+  useEffect(() => {
+    setExpandedNames([]);
+  }, [selectedNode?.name, focusMode]);
+
+  // Start at the top of the results list whenever it changes
+  useEffect(() => {
+    setActiveSearchResult(0);
+  }, [searchResults]);
+
+  // Apply the query once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const result = parseQuery(searchTerm);
+      if ("error" in result) {
+        setQueryError(result.error);
+        return;
+      }
+      setQueryError(null);
+      setActiveQuery(
+        result.query ? { text: searchTerm.trim(), query: result.query } : null
+      );
+    }, 250);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
   // Recenter graph when a node is selected
   useEffect(() => {
-    if (!selectedNode || !svgRef.current) return;
+    if (!selectedNode || !zoomTargetRef.current) return;
     const zoomBehavior = zoomBehaviorRef.current;
     if (!zoomBehavior) return;
     const { x, y } = selectedNode;
@@ -751,8 +2190,7 @@ const KnowledgeGraphVisualization = () => {
     const height = dimensions.height;
     const newX = width / 2 - x * k;
     const newY = height / 2 - y * k;
-    const svgSel = d3.select(svgRef.current);
-    svgSel
+    d3.select(zoomTargetRef.current)
       .transition()
       .duration(750)
       .call(
@@ -761,29 +2199,247 @@ const KnowledgeGraphVisualization = () => {
       );
   }, [selectedNode, dimensions]);
 
-  // Helper function to get relation counts
-  const getRelationCounts = (nodeName) => {
-    if (!graphData) return { inbound: 0, outbound: 0 };
+  // Close pending delete/relation edits when the selection changes, keeping
+  // a new-relation draft that involves the newly selected entity
+  useEffect(() => {
+    setIsConfirmingDelete(false);
+    setDeleteRepointTarget("");
+    setEditingRelation(null);
+    setRelationError("");
+    setNewRelation((draft) =>
+      draft &&
+      selectedNode &&
+      (draft.from === selectedNode.name || draft.to === selectedNode.name)
+        ? draft
+        : null
+    );
+  }, [selectedNode]);
+
+  // Open the path finder with one or both of its entities set
+  const openPathFinder = (ends: { from?: string; to?: string }) => {
+    setPathEnds((current) => ({ ...current, ...ends }));
+    setShowPathFinder(true);
+  };
+
+  // Open the entity of a search result
+  const selectSearchResult = (result: SearchResult) => {
+    const node = nodeMapRef.current.get(result.entity.name);
+    if (node) dispatchHistory({ type: 'select', node });
+    setShowSearchResults(false);
+  };
+
+  // Arrow keys move through the search results, Enter opens one
+  const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Escape") {
+      setShowSearchResults(false);
+      return;
+    }
+    if (!activeQuery || searchResults.length === 0) return;
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      setShowSearchResults(true);
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveSearchResult(
+        (current) => (current + step + searchResults.length) % searchResults.length
+      );
+    } else if (event.key === "Enter" && showSearchResults) {
+      event.preventDefault();
+      selectSearchResult(searchResults[activeSearchResult] ?? searchResults[0]);
+    }
+  };
+
+  // Show or hide all entities of a type
+  const toggleEntityType = (type: string) => {
+    setEntityTypeFilter((current) =>
+      toggleTypeVisibility(current, type, entityTypes)
+    );
+  };
+
+  // Override the color or shape of an entity type, and remember it
+  const changeTypeStyle = (type: string, style: Partial<TypeStyle>) => {
+    const updated = {
+      ...typeStyleOverrides,
+      [type]: { ...typeStyleOverrides[type], ...style },
+    };
+    setTypeStyleOverrides(updated);
+    storeStyleOverrides(ENTITY_STYLE_STORAGE_KEY, updated);
+  };
 
-    const inbound = graphData.relations.filter((r) => r.to === nodeName).length;
-    const outbound = graphData.relations.filter(
-      (r) => r.from === nodeName
-    ).length;
+  const resetTypeStyles = () => {
+    setTypeStyleOverrides({});
+    storeStyleOverrides(ENTITY_STYLE_STORAGE_KEY, {});
+  };
+
+  const toggleRelationType = (type: string) => {
+    setRelationTypeFilter((current) =>
+      toggleTypeVisibility(current, type, relationTypes)
+    );
+  };
+
+  const showOnlyRelationTypes = (types: string[]) => {
+    setRelationTypeFilter(
+      types.length === relationTypes.length
+        ? emptyTypeFilter()
+        : {
+            include: new Set(),
+            exclude: new Set(relationTypes.filter((type) => !types.includes(type))),
+          }
+    );
+  };
+
+  const changeRelationStyle = (type: string, style: Partial<RelationStyle>) => {
+    const updated = {
+      ...relationStyleOverrides,
+      [type]: { ...relationStyleOverrides[type], ...style },
+    };
+    setRelationStyleOverrides(updated);
+    storeStyleOverrides(RELATION_STYLE_STORAGE_KEY, updated);
+  };
+
+  const resetRelationStyles = () => {
+    setRelationStyleOverrides({});
+    storeStyleOverrides(RELATION_STYLE_STORAGE_KEY, {});
+  };
+
+  // Pin or release entities by name
+  const pinEntities = (names: string[], pinned: boolean) => {
+    setPinnedNames((current) => {
+      const updated = new Set(current);
+      names.forEach((name) => (pinned ? updated.add(name) : updated.delete(name)));
+      return updated;
+    });
+  };
+
+  // Place entities at saved positions and pin the ones saved as pinned
+  const applySavedLayout = (layout: SavedLayout) => {
+    pendingPositionsRef.current = new Map(Object.entries(layout));
+    setPinnedNames(
+      new Set(
+        Object.entries(layout)
+          .filter(([, position]) => position.pinned)
+          .map(([name]) => name)
+      )
+    );
+  };
+
+  // Download node positions as a sidecar file next to the memory file
+  const handleExportPositions = () => {
+    if (!graphData) return;
+    downloadTextFile(
+      positionsFileName(sources),
+      serializeSavedLayout(captureLayout(nodesRef.current, pinnedNames))
+    );
+  };
+
+  // Load node positions from a sidecar file
+  const handleImportPositions = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    readFileAsText(file)
+      .then((content) => {
+        applySavedLayout(parseSavedLayout(content));
+        setLayoutVersion((version) => version + 1);
+        setErrorMessage("");
+      })
+      .catch((err) => {
+        setErrorMessage(`Could not import positions: ${err.message}`);
+      });
+  };
 
-    return { inbound, outbound };
+  // Download the current graph as a memory.json file
+  const handleDownload = () => {
+    if (!graphData || readOnly) return;
+    downloadTextFile("memory.json", serializeMemoryJson(graphData));
   };
 
   // Reset the visualization
   const resetVisualization = () => {
     setGraphData(null);
+    nodeMapRef.current = new Map();
+    setPinnedNames(new Set());
+    setEntityTypeFilter(emptyTypeFilter());
+    setRelationTypeFilter(emptyTypeFilter());
+    setNewEntity(null);
+    setParseReports([]);
+    setShowParseReport(false);
+    setTypeConflicts([]);
+    setShowConflicts(false);
+    setFilterSource("All");
+    setComparison(null);
+    setCompareFiles({ before: null, after: null });
+    setActivePanel(null);
+    setGroupFilter(null);
+    setShowPathFinder(false);
+    setPathEnds({ from: "", to: "" });
     // Reset history and selection
     dispatchHistory({ type: 'reset' });
+    dispatchEdits({ type: 'reset' });
     setSearchTerm("");
-    setFilterEntityType("All");
-    setFilterRelationType("All");
     setErrorMessage("");
   };
 
+  // Inline edit, reverse and delete controls for a relation in the details panel
+  const renderRelationActions = (relation: Relation) =>
+    readOnly ? null : (
+      <span className="ml-2 space-x-1 text-xs">
+        <button
+          onClick={() => {
+            setEditingRelation(relation);
+            setEditingRelationType(relation.relationType);
+            setRelationError("");
+          }}
+          title="Change relation type"
+          className="text-gray-500 hover:text-blue-600"
+        >
+          ✎
+        </button>
+        <button
+          onClick={() => handleReverseRelation(relation)}
+          title="Reverse direction"
+          className="text-gray-500 hover:text-blue-600"
+        >
+          ⇄
+        </button>
+        <button
+          onClick={() => handleDeleteRelation(relation)}
+          title="Delete relation"
+          className="text-gray-500 hover:text-red-600"
+        >
+          ✕
+        </button>
+      </span>
+    );
+
+  const renderRelationTypeEditor = () => (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        handleSaveRelationType();
+      }}
+      className="inline-flex items-center space-x-1"
+    >
+      <input
+        type="text"
+        list="relationTypeOptions"
+        value={editingRelationType}
+        onChange={(e) => setEditingRelationType(e.target.value)}
+        className="w-32 px-1 border border-gray-300 rounded text-xs"
+        autoFocus
+      />
+      <button type="submit" className="text-xs text-green-600 hover:text-green-700">
+        ✓
+      </button>
+      <button
+        type="button"
+        onClick={() => setEditingRelation(null)}
+        className="text-xs text-gray-500 hover:text-gray-700"
+      >
+        ✕
+      </button>
+    </form>
+  );
+
   return (
     <div className="flex flex-col h-screen bg-gray-50">
       {!graphData ? (
@@ -853,11 +2509,30 @@ const KnowledgeGraphVisualization = () => {
                     />
                   </svg>
                   <p>{errorMessage}</p>
+                  {parseReportIssueCount > 0 && (
+                    <button
+                      onClick={() => setShowParseReport(true)}
+                      className="ml-2 underline"
+                    >
+                      View parse report
+                    </button>
+                  )}
                 </div>
               </div>
             )}
           </div>
 
+          {showParseReport && parseReports.length > 0 && (
+            <div className="mb-8 w-full flex justify-center">
+              <ParseReportPanel
+                reports={parseReports}
+                onFixLine={handleFixLine}
+                readOnly={readOnly}
+                onClose={() => setShowParseReport(false)}
+              />
+            </div>
+          )}
+
           <div
             className={`border-4 border-dashed rounded-lg p-12 w-full max-w-xl flex flex-col items-center justify-center transition-colors ${
               isDragging
@@ -885,7 +2560,7 @@ const KnowledgeGraphVisualization = () => {
                 </svg>
               </div>
               <h2 className="mt-4 text-lg font-medium text-gray-900">
-                Drag & drop your memory.json file
+                Drag & drop your memory.json file(s)
               </h2>
               <p className="mt-2 text-gray-500">or click to browse</p>
               <p className="mt-2 text-sm text-gray-400">
@@ -895,7 +2570,8 @@ const KnowledgeGraphVisualization = () => {
 
             <input
               type="file"
-              accept=".json"
+              accept=".json,.jsonl"
+              multiple
               onChange={handleFileSelect}
               className="hidden"
               id="file-upload"
@@ -921,6 +2597,43 @@ const KnowledgeGraphVisualization = () => {
             </label>
           </div>
 
+          <div className="mt-6 w-full max-w-xl p-4 bg-white border border-gray-200 rounded-lg">
+            <h3 className="font-medium text-purple-800 mb-2">
+              Compare two snapshots
+            </h3>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <label className="block">
+                <span className="text-gray-700">Before (older):</span>
+                <input
+                  type="file"
+                  accept=".json,.jsonl"
+                  onChange={(e) =>
+                    setCompareFiles({ ...compareFiles, before: e.target.files?.[0] ?? null })
+                  }
+                  className="mt-1 block w-full text-xs"
+                />
+              </label>
+              <label className="block">
+                <span className="text-gray-700">After (newer):</span>
+                <input
+                  type="file"
+                  accept=".json,.jsonl"
+                  onChange={(e) =>
+                    setCompareFiles({ ...compareFiles, after: e.target.files?.[0] ?? null })
+                  }
+                  className="mt-1 block w-full text-xs"
+                />
+              </label>
+            </div>
+            <button
+              onClick={handleCompare}
+              disabled={!compareFiles.before || !compareFiles.after}
+              className="mt-3 py-1 px-4 bg-purple-100 hover:bg-purple-200 disabled:bg-gray-100 disabled:text-gray-400 text-purple-700 rounded text-sm"
+            >
+              Compare
+            </button>
+          </div>
+
           <div className="mt-8 text-center">
             <h3 className="flex items-center justify-center font-medium mb-3 text-purple-800">
               <svg 
@@ -947,9 +2660,15 @@ const KnowledgeGraphVisualization = () => {
                 </svg>
                 <p className="font-medium">File Structure:</p>
               </div>
-              <p className="text-sm mb-2 ml-7">
+              <p className="text-sm mb-1 ml-7">
                 • Each line is a separate JSON object (entities/relations)
               </p>
+              <p className="text-sm mb-2 ml-7">
+                • The{" "}
+                <code className="bg-gray-200 px-1 rounded">read_graph</code>{" "}
+                output <code className="bg-gray-200 px-1 rounded">{"{entities, relations}"}</code>{" "}
+                or a JSON array of records also works
+              </p>
 
               <div className="flex items-center mb-2 text-purple-800">
                 <svg
@@ -985,7 +2704,14 @@ const KnowledgeGraphVisualization = () => {
           </div>
         </div>
       ) : (
-        <div className="flex flex-col h-screen">
+        <div
+          className={`flex flex-col h-screen ${
+            isDragging ? "ring-4 ring-inset ring-blue-400" : ""
+          }`}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+        >
           <div className="bg-white p-4 border-b border-gray-300 shadow-sm">
             <div className="flex justify-between items-center mb-4">
               <div className="flex items-center space-x-2">
@@ -1022,34 +2748,249 @@ const KnowledgeGraphVisualization = () => {
                   Anthropic Memory MCP Visualizer
                 </h1>
               </div>
-              <button
-                onClick={resetVisualization}
-                className="py-1 px-4 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded transition-colors flex items-center"
-              >
-                <svg 
-                  className="w-4 h-4 mr-1" 
-                  xmlns="http://www.w3.org/2000/svg" 
-                  viewBox="0 0 24 24"
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleUndo}
+                  disabled={editHistory.past.length === 0}
+                  title="Undo (Ctrl+Z)"
+                  className="p-1 px-2 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400 rounded"
                 >
-                  <path fill="none" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 19a2 2 0 0 1-2-2v-4l-1-1l1-1V7a2 2 0 0 1 2-2m6 6.875l3-1.687m-3 1.687v3.375m0-3.375l-3-1.687m3 1.687l3 1.688M12 8.5v3.375m0 0l-3 1.688M18 19a2 2 0 0 0 2-2v-4l1-1l-1-1V7a2 2 0 0 0-2-2"/>
-                </svg>
-                Upload New File
-              </button>
+                  &#8630;
+                </button>
+                <button
+                  onClick={handleRedo}
+                  disabled={editHistory.future.length === 0}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="p-1 px-2 bg-gray-200 hover:bg-gray-300 disabled:bg-gray-100 disabled:text-gray-400 rounded"
+                >
+                  &#8631;
+                </button>
+                <div className="relative">
+                  <button
+                    onClick={() => setShowEditHistory(!showEditHistory)}
+                    className="py-1 px-3 bg-gray-200 hover:bg-gray-300 rounded text-sm"
+                  >
+                    Changes ({editHistory.past.length})
+                  </button>
+                  {showEditHistory && (
+                    <div className="absolute right-0 mt-1 w-80 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded shadow-lg z-20 text-sm">
+                      {editHistory.past.length === 0 &&
+                      editHistory.future.length === 0 ? (
+                        <p className="p-3 text-gray-500">No changes yet.</p>
+                      ) : (
+                        <ul>
+                          {/* Undone edits that can still be redone */}
+                          {[...editHistory.future].reverse().map((edit) => (
+                            <li
+                              key={edit.id}
+                              className="px-3 py-1 text-gray-400 line-through"
+                            >
+                              {edit.label}
+                            </li>
+                          ))}
+                          {[...editHistory.past].reverse().map((edit, i) => (
+                            <li
+                              key={edit.id}
+                              className={`px-3 py-1 ${i === 0 ? "font-medium" : ""}`}
+                            >
+                              {edit.label}
+                              <span className="ml-2 text-xs text-gray-400">
+                                {new Date(edit.timestamp).toLocaleTimeString()}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <button
+                  onClick={() => togglePanel("health")}
+                  className={`py-1 px-3 rounded text-sm ${
+                    healthIssueCount > 0
+                      ? "bg-red-100 hover:bg-red-200 text-red-700"
+                      : "bg-green-50 hover:bg-green-100 text-green-700"
+                  }`}
+                >
+                  Health ({healthIssueCount})
+                </button>
+                <button
+                  onClick={() => togglePanel("analytics")}
+                  className="py-1 px-3 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-sm"
+                >
+                  Analytics
+                </button>
+                <button
+                  onClick={() => togglePanel("dashboard")}
+                  className="py-1 px-3 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-sm"
+                >
+                  Dashboard
+                </button>
+                <button
+                  onClick={() => togglePanel("schema")}
+                  className="py-1 px-3 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-sm"
+                >
+                  Schema
+                </button>
+                <button
+                  onClick={() => setShowPathFinder(!showPathFinder)}
+                  className="py-1 px-3 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-sm"
+                >
+                  Find Path
+                </button>
+                <button
+                  onClick={() => openNewEntity()}
+                  disabled={readOnly}
+                  title={readOnly ? READ_ONLY_HINT : undefined}
+                  className="py-1 px-4 bg-purple-100 hover:bg-purple-200 disabled:bg-gray-100 disabled:text-gray-400 text-purple-700 rounded transition-colors flex items-center"
+                >
+                  <svg
+                    className="w-4 h-4 mr-1"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M12 4v16m8-8H4"
+                    />
+                  </svg>
+                  New Entity
+                </button>
+                <input
+                  type="file"
+                  accept=".json,.jsonl"
+                  multiple
+                  onChange={handleAddFiles}
+                  disabled={readOnly}
+                  className="hidden"
+                  id="add-file-upload"
+                />
+                <label
+                  htmlFor="add-file-upload"
+                  title={readOnly ? READ_ONLY_HINT : "Merge more memory files into this graph"}
+                  className={`py-1 px-4 rounded transition-colors flex items-center ${
+                    readOnly
+                      ? "bg-gray-100 text-gray-400"
+                      : "bg-purple-100 hover:bg-purple-200 text-purple-700 cursor-pointer"
+                  }`}
+                >
+                  <svg
+                    className="w-4 h-4 mr-1"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M9 13h6m-3-3v6m5 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z"
+                    />
+                  </svg>
+                  Add File
+                </label>
+                <button
+                  onClick={handleDownload}
+                  disabled={readOnly}
+                  title={readOnly ? READ_ONLY_HINT : undefined}
+                  className="py-1 px-4 bg-purple-100 hover:bg-purple-200 disabled:bg-gray-100 disabled:text-gray-400 text-purple-700 rounded transition-colors flex items-center"
+                >
+                  <svg
+                    className="w-4 h-4 mr-1"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                    stroke="currentColor"
+                  >
+                    <path
+                      strokeLinecap="round"
+                      strokeLinejoin="round"
+                      strokeWidth="2"
+                      d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4"
+                    />
+                  </svg>
+                  Download memory.json
+                </button>
+                <button
+                  onClick={resetVisualization}
+                  className="py-1 px-4 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded transition-colors flex items-center"
+                >
+                  <svg 
+                    className="w-4 h-4 mr-1" 
+                    xmlns="http://www.w3.org/2000/svg" 
+                    viewBox="0 0 24 24"
+                  >
+                    <path fill="none" stroke="currentColor" strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M6 19a2 2 0 0 1-2-2v-4l-1-1l1-1V7a2 2 0 0 1 2-2m6 6.875l3-1.687m-3 1.687v3.375m0-3.375l-3-1.687m3 1.687l3 1.688M12 8.5v3.375m0 0l-3 1.688M18 19a2 2 0 0 0 2-2v-4l1-1l-1-1V7a2 2 0 0 0-2-2"/>
+                  </svg>
+                  Upload New File
+                </button>
+              </div>
             </div>
 
+            {errorMessage && (
+              <div className="mb-4 p-2 bg-red-100 border-l-4 border-red-500 text-red-700 rounded text-sm flex justify-between">
+                <p>{errorMessage}</p>
+                <button onClick={() => setErrorMessage("")}>✕</button>
+              </div>
+            )}
+
             <div className="flex flex-wrap items-center gap-2 mb-4">
               <div className="bg-purple-100 text-purple-800 px-3 py-1 rounded-full text-sm font-medium">
-                {stats.entityCount} Entities
+                {statLabel("entityCount")} Entities
               </div>
               <div className="bg-purple-100 text-purple-800 px-3 py-1 rounded-full text-sm font-medium border-2 border-purple-200">
-                {stats.relationCount} Relations
+                {statLabel("relationCount")} Relations
               </div>
               <div className="bg-purple-50 text-purple-700 px-3 py-1 rounded-full text-sm font-medium">
-                {stats.entityTypeCount} Entity Types
+                {statLabel("entityTypeCount")} Entity Types
               </div>
               <div className="bg-purple-50 text-purple-700 px-3 py-1 rounded-full text-sm font-medium border-2 border-purple-100">
-                {stats.relationTypeCount} Relation Types
+                {statLabel("relationTypeCount")} Relation Types
               </div>
+              {activeQuery && (
+                <div className="flex items-center gap-2 bg-purple-600 text-white px-3 py-1 rounded-full text-sm font-medium">
+                  <span>
+                    Query: <code className="font-mono">{activeQuery.text}</code>
+                    {searchMode === "highlight" &&
+                      ` · ${queryMatchNames?.size ?? 0} highlighted`}
+                  </span>
+                  <button
+                    onClick={() => setSearchTerm("")}
+                    title="Clear the query"
+                    className="hover:text-purple-200"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+              {parseReports.length > 0 && (
+                <button
+                  onClick={() => setShowParseReport(true)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    parseReportIssueCount > 0
+                      ? "bg-red-100 text-red-700 hover:bg-red-200"
+                      : "bg-green-50 text-green-700 hover:bg-green-100"
+                  }`}
+                >
+                  {parseReports.length === 1
+                    ? memoryFormatLabels[parseReports[0].report.format]
+                    : `${parseReports.length} sources`}{" "}
+                  ·{" "}
+                  {parseReportIssueCount > 0
+                    ? `${parseReportIssueCount} of ${parseReportRecordCount} records rejected`
+                    : `all ${parseReportRecordCount} records parsed`}
+                </button>
+              )}
+              {openTypeConflicts.length > 0 && (
+                <button
+                  onClick={() => setShowConflicts(true)}
+                  className="px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800 hover:bg-yellow-200"
+                >
+                  {openTypeConflicts.length} type conflict(s)
+                </button>
+              )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -1060,14 +3001,67 @@ const KnowledgeGraphVisualization = () => {
                 >
                   Search:
                 </label>
-                <input
-                  id="search"
-                  type="text"
-                  value={searchTerm}
-                  onChange={(e) => setSearchTerm(e.target.value)}
-                  placeholder="Search by name or content..."
-                  className="w-full p-2 border border-gray-300 rounded"
-                />
+                <div className="relative">
+                  <input
+                    id="search"
+                    type="text"
+                    value={searchTerm}
+                    onChange={(e) => {
+                      setSearchTerm(e.target.value);
+                      setShowSearchResults(true);
+                    }}
+                    onFocus={() => setShowSearchResults(true)}
+                    onBlur={() => setShowSearchResults(false)}
+                    onKeyDown={handleSearchKeyDown}
+                    placeholder='e.g. type:Person rel:works_at degree>3 -name:test'
+                    role="combobox"
+                    aria-expanded={showSearchResults && activeQuery !== null}
+                    aria-controls="search-results"
+                    aria-activedescendant={
+                      searchResults.length > 0
+                        ? `search-results-${activeSearchResult}`
+                        : undefined
+                    }
+                    aria-invalid={queryError !== null}
+                    aria-describedby="search-help"
+                    className={`w-full p-2 border rounded font-mono text-sm ${
+                      queryError ? "border-red-500" : "border-gray-300"
+                    }`}
+                  />
+                  {showSearchResults && activeQuery && (
+                    <SearchResults
+                      id="search-results"
+                      results={searchResults}
+                      totalCount={queryMatchNames?.size ?? 0}
+                      activeIndex={activeSearchResult}
+                      onHover={setActiveSearchResult}
+                      onSelect={selectSearchResult}
+                    />
+                  )}
+                </div>
+                <label className="flex items-center mt-1 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={searchMode === "highlight"}
+                    onChange={(e) =>
+                      setSearchMode(e.target.checked ? "highlight" : "filter")
+                    }
+                    className="mr-1"
+                  />
+                  Highlight matches instead of filtering
+                </label>
+                {queryError ? (
+                  <p id="search-help" className="mt-1 text-xs text-red-600">
+                    Column {queryError.position}: {queryError.message}
+                    {activeQuery && " (still showing the previous query)"}
+                  </p>
+                ) : (
+                  <p id="search-help" className="mt-1 text-xs text-gray-500">
+                    Fields: name, type, obs, rel, source (text, "quoted" or
+                    /regex/), degree, in, out, obs (with &gt; &lt; =). Combine
+                    with AND, OR, NOT, - and parentheses.
+                  </p>
+                )}
               </div>
 
               <div>
@@ -1077,18 +3071,13 @@ const KnowledgeGraphVisualization = () => {
                 >
                   Filter by Entity Type:
                 </label>
-                <select
+                <TypeFilterDropdown
                   id="entityType"
-                  value={filterEntityType}
-                  onChange={(e) => setFilterEntityType(e.target.value)}
-                  className="w-full p-2 border border-gray-300 rounded"
-                >
-                  {entityTypes.map((type) => (
-                    <option key={type} value={type}>
-                      {type}
-                    </option>
-                  ))}
-                </select>
+                  types={entityTypes}
+                  counts={entityTypeCounts}
+                  filter={entityTypeFilter}
+                  onChange={setEntityTypeFilter}
+                />
               </div>
 
               <div>
@@ -1098,22 +3087,341 @@ const KnowledgeGraphVisualization = () => {
                 >
                   Filter by Relation Type:
                 </label>
-                <select
+                <TypeFilterDropdown
                   id="relationType"
-                  value={filterRelationType}
-                  onChange={(e) => setFilterRelationType(e.target.value)}
-                  className="w-full p-2 border border-gray-300 rounded"
+                  types={relationTypes}
+                  counts={relationTypeCounts}
+                  filter={relationTypeFilter}
+                  onChange={setRelationTypeFilter}
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-4 mt-4">
+              <div className="flex items-center">
+                <label
+                  htmlFor="layout"
+                  className="text-sm font-medium text-gray-700 mr-2"
+                >
+                  Layout:
+                </label>
+                <select
+                  id="layout"
+                  value={layoutMode}
+                  onChange={(e) => setLayoutMode(e.target.value as LayoutMode)}
+                  className="p-1 border border-gray-300 rounded text-sm"
+                >
+                  {(Object.keys(layoutModeLabels) as LayoutMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {layoutModeLabels[mode]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {layoutMode === "hierarchical" && (
+                <select
+                  aria-label="Hierarchy direction"
+                  value={hierarchyDirection}
+                  onChange={(e) =>
+                    setHierarchyDirection(e.target.value as HierarchyDirection)
+                  }
+                  className="p-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="down">Relation sources on top</option>
+                  <option value="up">Relation targets on top (e.g. is_part_of)</option>
+                </select>
+              )}
+              {layoutMode === "radial" && !selectedNode && (
+                <span className="text-xs text-gray-500">
+                  Centered on the best connected entity; select one to center on it
+                </span>
+              )}
+              <div className="flex items-center gap-1 text-sm">
+                <span className="text-gray-600 mr-1">
+                  {pinnedNames.size} pinned
+                </span>
+                <button
+                  onClick={() => pinEntities(nodesRef.current.map((n) => n.id), true)}
+                  className="px-2 py-1 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded"
+                >
+                  Pin all
+                </button>
+                <button
+                  onClick={() => setPinnedNames(new Set())}
+                  disabled={pinnedNames.size === 0}
+                  className="px-2 py-1 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded disabled:opacity-40"
+                >
+                  Release all
+                </button>
+                <button
+                  onClick={handleExportPositions}
+                  title="Download node positions as a sidecar file"
+                  className="px-2 py-1 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded"
+                >
+                  Export positions
+                </button>
+                <input
+                  type="file"
+                  accept=".json"
+                  onChange={handleImportPositions}
+                  className="hidden"
+                  id="positions-upload"
+                />
+                <label
+                  htmlFor="positions-upload"
+                  title="Restore node positions from a sidecar file"
+                  className="px-2 py-1 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded cursor-pointer"
+                >
+                  Import positions
+                </label>
+              </div>
+              <div className="flex items-center">
+                <label
+                  htmlFor="colorMode"
+                  className="text-sm font-medium text-gray-700 mr-2"
+                >
+                  Node color:
+                </label>
+                <select
+                  id="colorMode"
+                  value={colorMode}
+                  onChange={(e) => setColorMode(e.target.value as ColorMode)}
+                  className="p-1 border border-gray-300 rounded text-sm"
+                >
+                  {(Object.keys(colorModeLabels) as ColorMode[]).map((mode) => (
+                    <option key={mode} value={mode}>
+                      {colorModeLabels[mode]}
+                    </option>
+                  ))}
+                </select>
+                {colorMode !== "type" && !isGroupColorMode(colorMode) && (
+                  <span className="flex items-center ml-2 text-xs text-gray-600">
+                    low
+                    <span
+                      className="inline-block w-16 h-2 mx-1 rounded"
+                      style={{
+                        background: `linear-gradient(to right, ${d3
+                          .quantize(METRIC_COLOR_INTERPOLATOR, 5)
+                          .join(", ")})`,
+                      }}
+                    />
+                    high
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center">
+                <label
+                  htmlFor="sizeMetric"
+                  className="text-sm font-medium text-gray-700 mr-2"
                 >
-                  {relationTypes.map((type) => (
-                    <option key={type} value={type}>
-                      {type}
+                  Node size:
+                </label>
+                <select
+                  id="sizeMetric"
+                  value={sizeMetric}
+                  onChange={(e) => setSizeMetric(e.target.value as SizeMetric)}
+                  className="p-1 border border-gray-300 rounded text-sm"
+                >
+                  {(Object.keys(sizeMetricLabels) as SizeMetric[]).map((metric) => (
+                    <option key={metric} value={metric}>
+                      {sizeMetricLabels[metric]}
                     </option>
                   ))}
                 </select>
               </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={linkLabelMinZoom !== null}
+                  onChange={(e) => setLinkLabelMinZoom(e.target.checked ? 1 : null)}
+                  className="mr-1"
+                />
+                Hide link labels below zoom
+                {linkLabelMinZoom !== null && (
+                  <input
+                    type="number"
+                    min={0.1}
+                    max={8}
+                    step={0.1}
+                    value={linkLabelMinZoom}
+                    onChange={(e) => setLinkLabelMinZoom(Number(e.target.value) || 0)}
+                    className="w-16 ml-1 p-1 border border-gray-300 rounded text-sm"
+                  />
+                )}
+              </label>
+              <div className="flex items-center">
+                <label
+                  htmlFor="renderer"
+                  className="text-sm font-medium text-gray-700 mr-2"
+                >
+                  Renderer:
+                </label>
+                <select
+                  id="renderer"
+                  value={rendererMode}
+                  onChange={(e) => setRendererMode(e.target.value as RendererMode)}
+                  className="p-1 border border-gray-300 rounded text-sm"
+                >
+                  <option value="auto">Auto</option>
+                  <option value="svg">SVG</option>
+                  <option value="canvas">Canvas</option>
+                </select>
+              </div>
+              {rendererMode === "auto" && (
+                <label className="flex items-center text-sm text-gray-700">
+                  Canvas above
+                  <input
+                    type="number"
+                    min={0}
+                    value={canvasThreshold}
+                    onChange={(e) =>
+                      setCanvasThreshold(Math.max(0, Number(e.target.value) || 0))
+                    }
+                    className="w-20 mx-1 p-1 border border-gray-300 rounded text-sm"
+                  />
+                  nodes
+                </label>
+              )}
+              <span className="text-xs text-gray-500">
+                Drawing with {activeRenderer === "canvas" ? "canvas" : "SVG"}
+                {activeRenderer === "canvas" && " (labels appear when zoomed in)"}
+              </span>
+            </div>
+
+            <div className="mt-4">
+              <FocusBar
+                enabled={focusMode}
+                onToggle={setFocusMode}
+                hops={focusHops}
+                onChangeHops={setFocusHops}
+                center={neighborhood ? selectedNode.name : null}
+                shownCount={visibleNames.size}
+                boundaryCount={neighborhood?.boundary.size ?? 0}
+                expandedCount={expandedNames.length}
+                onExpandAll={() => expandNames(neighborhood?.boundary ?? [])}
+                onResetExpanded={() => setExpandedNames([])}
+                history={history}
+                historyIndex={index}
+                onGoTo={(position) => dispatchHistory({ type: 'go', index: position })}
+              />
+            </div>
+
+            <div className="mt-4">
+              <EntityTypeLegend
+                typeStyles={typeStyles}
+                counts={entityTypeCounts}
+                hiddenTypes={hiddenByTypeFilter(entityTypeFilter, entityTypes)}
+                onToggleType={toggleEntityType}
+                onChangeStyle={changeTypeStyle}
+                onResetStyles={resetTypeStyles}
+              />
+            </div>
+            <div className="mt-2">
+              <RelationTypeLegend
+                relationStyles={relationStyles}
+                counts={relationTypeCounts}
+                hiddenTypes={hiddenByTypeFilter(relationTypeFilter, relationTypes)}
+                onToggleType={toggleRelationType}
+                onShowOnly={showOnlyRelationTypes}
+                onChangeStyle={changeRelationStyle}
+                onResetStyles={resetRelationStyles}
+              />
             </div>
+
+            {sources.length > 1 && (
+              <div className="flex flex-wrap items-center gap-4 mt-4">
+                <div className="flex items-center">
+                  <label
+                    htmlFor="source"
+                    className="text-sm font-medium text-gray-700 mr-2"
+                  >
+                    Source file:
+                  </label>
+                  <select
+                    id="source"
+                    value={filterSource}
+                    onChange={(e) => setFilterSource(e.target.value)}
+                    className="p-1 border border-gray-300 rounded text-sm"
+                  >
+                    {["All", ...sources].map((source) => (
+                      <option key={source} value={source}>
+                        {source}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={colorBySource}
+                    onChange={(e) => setColorBySource(e.target.checked)}
+                    className="mr-1"
+                  />
+                  Color by source
+                </label>
+                {colorBySource && (
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+                    {sources.map((source) => (
+                      <span key={source} className="flex items-center">
+                        <span
+                          className="inline-block w-3 h-3 rounded-full mr-1"
+                          style={{ backgroundColor: sourceColor(source) }}
+                        />
+                        {source}
+                      </span>
+                    ))}
+                    <span className="flex items-center">
+                      <span className="inline-block w-3 h-3 rounded-full mr-1 border-2 border-gray-800" />
+                      in several files
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
           </div>
 
+          {showParseReport && parseReports.length > 0 && (
+            <div className="fixed inset-0 z-30 flex items-center justify-center p-4 bg-black bg-opacity-30">
+              <ParseReportPanel
+                reports={parseReports}
+                onFixLine={handleFixLine}
+                readOnly={readOnly}
+                onClose={() => setShowParseReport(false)}
+              />
+            </div>
+          )}
+
+          {showConflicts && (
+            <div className="fixed inset-0 z-30 flex items-center justify-center p-4 bg-black bg-opacity-30">
+              <MergeConflictsPanel
+                conflicts={openTypeConflicts}
+                onResolve={handleResolveConflict}
+                onSelectEntity={(name) => {
+                  selectEntity(name);
+                  setShowConflicts(false);
+                }}
+                onClose={() => setShowConflicts(false)}
+              />
+            </div>
+          )}
+
+          {/* Autocomplete options for the editing forms */}
+          <datalist id="entityNameOptions">
+            {[...graphIndex.entitiesByName.keys()].map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+          <datalist id="entityTypeOptions">
+            {entityTypes.map((type) => (
+              <option key={type} value={type} />
+            ))}
+          </datalist>
+          <datalist id="relationTypeOptions">
+            {relationTypes.map((type) => (
+              <option key={type} value={type} />
+            ))}
+          </datalist>
+
           <div
             className="flex flex-1 overflow-hidden"
             style={{ height: "calc(100vh - 180px)", minHeight: "500px" }}
@@ -1128,8 +3436,193 @@ const KnowledgeGraphVisualization = () => {
                 width="100%"
                 height="100%"
                 className="bg-white absolute top-0 left-0"
-                style={{ minHeight: "500px" }}
+                style={{
+                  minHeight: "500px",
+                  display: activeRenderer === "svg" ? undefined : "none",
+                }}
               ></svg>
+              <canvas
+                ref={canvasRef}
+                className="bg-white absolute top-0 left-0"
+                style={{ display: activeRenderer === "canvas" ? undefined : "none" }}
+              ></canvas>
+
+              {comparison && (
+                <div className="absolute top-4 left-4 bottom-4 z-10 flex items-start">
+                  <DiffPanel
+                    diff={comparison.diff}
+                    beforeName={comparison.beforeName}
+                    afterName={comparison.afterName}
+                    onSelectEntity={selectEntity}
+                    onExit={exitComparison}
+                  />
+                </div>
+              )}
+
+              {showPathFinder && (
+                <div className="absolute bottom-4 left-4 max-h-[60%] z-10 flex items-end">
+                  <PathFinderPanel
+                    from={pathEnds.from}
+                    to={pathEnds.to}
+                    onChangeEnds={(from, to) => setPathEnds({ from, to })}
+                    directed={pathDirected}
+                    onChangeDirected={setPathDirected}
+                    relationTypes={relationTypes}
+                    relationTypeCounts={relationTypeCounts}
+                    relationFilter={pathRelationFilter}
+                    onChangeRelationFilter={setPathRelationFilter}
+                    paths={paths}
+                    selectedPath={selectedPath}
+                    onSelectPath={setSelectedPath}
+                    onSelectEntity={selectEntity}
+                    onClose={() => setShowPathFinder(false)}
+                  />
+                </div>
+              )}
+
+              {activePanel === "analytics" && !analytics && (
+                <div className="absolute top-4 right-4 z-10 flex items-center gap-3 p-3 bg-white border border-gray-200 rounded-lg shadow-lg text-sm text-gray-600">
+                  Computing analytics…
+                  <button
+                    onClick={() => setActivePanel(null)}
+                    className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+              {activePanel === "analytics" && analytics && (
+                <div className="absolute top-4 right-4 bottom-4 z-10 flex items-start">
+                  <AnalyticsPanel
+                    analytics={analytics}
+                    index={graphIndex}
+                    groupFilter={groupFilter}
+                    onChangeGroupFilter={setGroupFilter}
+                    colorMode={colorMode}
+                    onChangeColorMode={setColorMode}
+                    sizeMetric={sizeMetric}
+                    onChangeSizeMetric={setSizeMetric}
+                    onSelectEntity={selectEntity}
+                    onClose={() => setActivePanel(null)}
+                  />
+                </div>
+              )}
+
+              {activePanel === "dashboard" && distributions && (
+                <div className="absolute top-4 right-4 bottom-4 z-10 flex items-start">
+                  <StatsDashboard
+                    distributions={distributions}
+                    entityTypeColor={entityTypeColor}
+                    relationTypeColor={relationTypeColor}
+                    entityTypeFilter={entityTypeFilter}
+                    relationTypeFilter={relationTypeFilter}
+                    query={activeQuery?.text ?? null}
+                    onFilterEntityType={(type) =>
+                      setEntityTypeFilter((current) => toggleOnlyTypes(current, [type]))
+                    }
+                    onFilterRelationType={(type) =>
+                      setRelationTypeFilter((current) => toggleOnlyTypes(current, [type]))
+                    }
+                    onFilterTypeConnection={handleFilterTypeConnection}
+                    onQuery={(query) =>
+                      setSearchTerm((current) => (current.trim() === query ? "" : query))
+                    }
+                    onClose={() => setActivePanel(null)}
+                  />
+                </div>
+              )}
+
+              {activePanel === "schema" && schema && (
+                <div className="absolute top-4 right-4 bottom-4 z-10 flex items-start">
+                  <SchemaPanel
+                    schema={schema}
+                    entityTypeColor={entityTypeColor}
+                    onShowType={(type) =>
+                      setEntityTypeFilter((current) => toggleOnlyTypes(current, [type]))
+                    }
+                    onShowEdge={(edge) =>
+                      handleFilterTypeConnection(edge.fromType, edge.toType, [
+                        edge.relationType,
+                      ])
+                    }
+                    onSelectEntity={selectEntity}
+                    onClose={() => setActivePanel(null)}
+                  />
+                </div>
+              )}
+
+              {activePanel === "health" && (
+                <div className="absolute top-4 right-4 bottom-4 z-10 flex items-start">
+                  <HealthPanel
+                    categories={healthCategories}
+                    onFix={readOnly ? undefined : handleHealthFix}
+                    onSelectEntity={selectEntity}
+                    onClose={() => setActivePanel(null)}
+                  />
+                </div>
+              )}
+
+              {newEntity && (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleCreateEntity();
+                  }}
+                  className="absolute top-4 left-4 w-72 p-4 bg-white border border-purple-200 rounded-lg shadow-lg space-y-3"
+                >
+                  <h3 className="font-bold text-purple-800">New Entity</h3>
+                  <div>
+                    <label htmlFor="newEntityName" className="block text-sm font-medium text-gray-700">名称:</label>
+                    <input
+                      type="text"
+                      id="newEntityName"
+                      value={newEntity.name}
+                      onChange={(e) => setNewEntity({ ...newEntity, name: e.target.value })}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                      autoFocus
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="newEntityType" className="block text-sm font-medium text-gray-700">实体类型:</label>
+                    <input
+                      type="text"
+                      id="newEntityType"
+                      list="entityTypeOptions"
+                      value={newEntity.entityType}
+                      onChange={(e) => setNewEntity({ ...newEntity, entityType: e.target.value })}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="newEntityObservations" className="block text-sm font-medium text-gray-700">观察结果 (每行一个):</label>
+                    <textarea
+                      id="newEntityObservations"
+                      rows={4}
+                      value={newEntity.observations}
+                      onChange={(e) => setNewEntity({ ...newEntity, observations: e.target.value })}
+                      className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
+                    />
+                  </div>
+                  {entityError && (
+                    <p className="text-xs text-red-600">{entityError}</p>
+                  )}
+                  <div className="flex justify-end space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => setNewEntity(null)}
+                      className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50"
+                    >
+                      取消
+                    </button>
+                    <button
+                      type="submit"
+                      className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700"
+                    >
+                      创建
+                    </button>
+                  </div>
+                </form>
+              )}
             </div>
 
             {selectedNode && (
@@ -1137,7 +3630,7 @@ const KnowledgeGraphVisualization = () => {
                 {/* Edit and Delete Buttons Placeholder */}
               </>
             )}
-            {selectedNode && (
+            {selectedNode && selectedEntity && (
               <div className="w-1/3 p-4 bg-purple-50 border-l border-purple-200 overflow-y-auto">
                 <div className="flex items-center mb-3">
                   <svg 
@@ -1182,10 +3675,16 @@ const KnowledgeGraphVisualization = () => {
                         className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm"
                       />
                     </div>
+                    {editError && (
+                      <p className="text-xs text-red-600">{editError}</p>
+                    )}
                     <div className="flex justify-end space-x-2">
                       <button
                         type="button"
-                        onClick={() => setIsEditing(false)} // Placeholder for cancel
+                        onClick={() => {
+                          setIsEditing(false);
+                          setEditError("");
+                        }}
                         className="px-4 py-2 border border-gray-300 rounded-md shadow-sm text-sm font-medium text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
                       >
                         取消
@@ -1204,31 +3703,116 @@ const KnowledgeGraphVisualization = () => {
                     <div className="flex justify-between items-center mb-2">
                       <h2 className="text-lg font-bold">{selectedNode.name}</h2>
                       <div>
+                        <button
+                          onClick={() =>
+                            pinEntities(
+                              [selectedNode.name],
+                              !pinnedNames.has(selectedNode.name)
+                            )
+                          }
+                          title="Pinned nodes keep their position"
+                          className="mr-2 p-1 bg-purple-500 hover:bg-purple-600 text-white rounded text-xs"
+                        >
+                          {pinnedNames.has(selectedNode.name) ? "取消固定" : "固定"}
+                        </button>
+                        <button
+                          onClick={() => openPathFinder({ from: selectedNode.name })}
+                          title="Find paths starting at this entity"
+                          className="mr-2 p-1 bg-amber-500 hover:bg-amber-600 text-white rounded text-xs"
+                        >
+                          路径起点
+                        </button>
+                        <button
+                          onClick={() => openPathFinder({ to: selectedNode.name })}
+                          title="Find paths ending at this entity"
+                          className="mr-2 p-1 bg-amber-500 hover:bg-amber-600 text-white rounded text-xs"
+                        >
+                          路径终点
+                        </button>
                         <button
                           onClick={() => {
-                            if (selectedNode) {
-                              setEditingNodeData({ ...selectedNode });
+                            if (selectedEntity) {
+                              setEditingNodeData({ ...selectedNode, ...selectedEntity });
+                              setEditError("");
                               setIsEditing(true);
                             }
                           }}
-                          className="mr-2 p-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-xs"
+                          disabled={readOnly}
+                          title={readOnly ? READ_ONLY_HINT : undefined}
+                          className="mr-2 p-1 bg-blue-500 hover:bg-blue-600 disabled:bg-gray-300 text-white rounded text-xs"
                         >
                           编辑
                         </button>
                         <button
-                          // onClick={() => handleDeleteNode(selectedNode.id)} // Placeholder
-                          className="p-1 bg-red-500 hover:bg-red-600 text-white rounded text-xs"
+                          onClick={() => setIsConfirmingDelete(true)}
+                          disabled={readOnly}
+                          title={readOnly ? READ_ONLY_HINT : undefined}
+                          className="p-1 bg-red-500 hover:bg-red-600 disabled:bg-gray-300 text-white rounded text-xs"
                         >
                           删除
                         </button>
                       </div>
                     </div>
+                    {isConfirmingDelete && graphData && (
+                      <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded text-sm">
+                        <p className="mb-2 text-red-700">
+                          Delete <span className="font-medium">{selectedNode.name}</span>?{" "}
+                          {getRelationsOf(graphIndex, selectedNode.name).length}{" "}
+                          relation(s) will be{" "}
+                          {deleteRepointTarget ? "re-pointed" : "dropped"}.
+                        </p>
+                        <label
+                          htmlFor="deleteRepointTarget"
+                          className="block text-xs font-medium text-gray-700 mb-1"
+                        >
+                          Re-point relations to:
+                        </label>
+                        <select
+                          id="deleteRepointTarget"
+                          value={deleteRepointTarget}
+                          onChange={(e) => setDeleteRepointTarget(e.target.value)}
+                          className="w-full mb-2 p-1 border border-gray-300 rounded text-sm"
+                        >
+                          <option value="">(none, drop them)</option>
+                          {[...graphIndex.entitiesByName.keys()]
+                            .filter((name) => name !== selectedNode.name)
+                            .map((name) => (
+                              <option key={name} value={name}>
+                                {name}
+                              </option>
+                            ))}
+                        </select>
+                        <div className="flex justify-end space-x-2">
+                          <button
+                            onClick={() => {
+                              setIsConfirmingDelete(false);
+                              setDeleteRepointTarget("");
+                            }}
+                            className="px-2 py-1 border border-gray-300 rounded text-xs text-gray-700 hover:bg-gray-50"
+                          >
+                            取消
+                          </button>
+                          <button
+                            onClick={handleDeleteNode}
+                            className="px-2 py-1 bg-red-500 hover:bg-red-600 text-white rounded text-xs"
+                          >
+                            删除
+                          </button>
+                        </div>
+                      </div>
+                    )}
                     <p className="text-sm text-gray-600 mb-4">
-                      Type: {selectedNode.entityType}
+                      Type: {selectedEntity.entityType}
+                      {selectedEntity.sources && selectedEntity.sources.length > 0 && (
+                        <>
+                          <br />
+                          Source: {selectedEntity.sources.join(", ")}
+                        </>
+                      )}
                     </p>
 
                     {/* Observations are shown only in view mode and if they exist */}
-                    {selectedNode.observations && selectedNode.observations.length > 0 && (
+                    {selectedEntity.observations && selectedEntity.observations.length > 0 && (
                       <>
                         <h3 className="font-bold text-purple-800 mb-2 flex items-center">
                           <svg
@@ -1245,7 +3829,7 @@ const KnowledgeGraphVisualization = () => {
                           Observations:
                         </h3>
                         <ul className="list-disc pl-5 mb-4">
-                          {selectedNode.observations.map((obs, i) => (
+                          {selectedEntity.observations.map((obs, i) => (
                             <li key={i} className="text-sm mb-1">
                               {obs}
                             </li>
@@ -1261,29 +3845,34 @@ const KnowledgeGraphVisualization = () => {
                         <div className="mb-2">
                           <p className="text-sm">
                             <span className="font-medium">Connections:</span>{" "}
-                            {getRelationCounts(selectedNode.name).inbound +
-                              getRelationCounts(selectedNode.name).outbound}
-                            &nbsp;({getRelationCounts(selectedNode.name).inbound}{" "}
-                            inbound, {getRelationCounts(selectedNode.name).outbound}{" "}
+                            {getInDegree(graphIndex, selectedNode.name) +
+                              getOutDegree(graphIndex, selectedNode.name)}
+                            &nbsp;({getInDegree(graphIndex, selectedNode.name)}{" "}
+                            inbound, {getOutDegree(graphIndex, selectedNode.name)}{" "}
                             outbound)
                           </p>
                         </div>
 
-                        {graphData.relations.filter(
-                          (r) => r.from === selectedNode.name
-                        ).length > 0 && (
+                        {relationError && (
+                          <p className="text-xs text-red-600 mb-2">{relationError}</p>
+                        )}
+
+                        {getOutgoing(graphIndex, selectedNode.name).length > 0 && (
                           <div className="mb-3">
                             <h4 className="text-sm font-semibold mb-1">
                               Outbound:
                             </h4>
                             <ul className="list-disc pl-5">
-                              {graphData.relations
-                                .filter((r) => r.from === selectedNode.name)
-                                .map((r, i) => (
+                              {getOutgoing(graphIndex, selectedNode.name).map(
+                                (r, i) => (
                                   <li key={i} className="text-sm mb-1">
-                                    <span className="italic text-blue-600">
-                                      {r.relationType}
-                                    </span>{" "}
+                                    {editingRelation === r ? (
+                                      renderRelationTypeEditor()
+                                    ) : (
+                                      <span className="italic text-blue-600">
+                                        {r.relationType}
+                                      </span>
+                                    )}{" "}
                                     →{" "}
                                     <button
                                       onClick={() => {
@@ -1297,21 +3886,19 @@ const KnowledgeGraphVisualization = () => {
                                     >
                                       {r.to}
                                     </button>
+                                    {renderRelationActions(r)}
                                   </li>
                                 ))}
                             </ul>
                           </div>
                         )}
 
-                        {graphData.relations.filter(
-                          (r) => r.to === selectedNode.name
-                        ).length > 0 && (
-                          <div>
+                        {getIncoming(graphIndex, selectedNode.name).length > 0 && (
+                          <div className="mb-3">
                             <h4 className="text-sm font-semibold mb-1">Inbound:</h4>
                             <ul className="list-disc pl-5">
-                              {graphData.relations
-                                .filter((r) => r.to === selectedNode.name)
-                                .map((r, i) => (
+                              {getIncoming(graphIndex, selectedNode.name).map(
+                                (r, i) => (
                                   <li key={i} className="text-sm mb-1">
                                     <button
                                       onClick={() => {
@@ -1326,14 +3913,87 @@ const KnowledgeGraphVisualization = () => {
                                       {r.from}
                                     </button>{" "}
                                     →{" "}
-                                    <span className="italic text-blue-600">
-                                      {r.relationType}
-                                    </span>
+                                    {editingRelation === r ? (
+                                      renderRelationTypeEditor()
+                                    ) : (
+                                      <span className="italic text-blue-600">
+                                        {r.relationType}
+                                      </span>
+                                    )}
+                                    {renderRelationActions(r)}
                                   </li>
                                 ))}
                             </ul>
                           </div>
                         )}
+
+                        {newRelation ? (
+                          <form
+                            onSubmit={(e) => {
+                              e.preventDefault();
+                              handleAddRelation();
+                            }}
+                            className="p-3 bg-white border border-purple-200 rounded space-y-2"
+                          >
+                            <h4 className="text-sm font-semibold">New relation</h4>
+                            <input
+                              type="text"
+                              list="entityNameOptions"
+                              value={newRelation.from}
+                              onChange={(e) => setNewRelation({ ...newRelation, from: e.target.value })}
+                              placeholder="Source entity"
+                              className="w-full p-1 border border-gray-300 rounded text-sm"
+                            />
+                            <input
+                              type="text"
+                              list="relationTypeOptions"
+                              value={newRelation.relationType}
+                              onChange={(e) => setNewRelation({ ...newRelation, relationType: e.target.value })}
+                              placeholder="Relation type, e.g. works_at"
+                              className="w-full p-1 border border-gray-300 rounded text-sm"
+                              autoFocus
+                            />
+                            <input
+                              type="text"
+                              list="entityNameOptions"
+                              value={newRelation.to}
+                              onChange={(e) => setNewRelation({ ...newRelation, to: e.target.value })}
+                              placeholder="Target entity"
+                              className="w-full p-1 border border-gray-300 rounded text-sm"
+                            />
+                            <div className="flex justify-end space-x-2">
+                              <button
+                                type="button"
+                                onClick={() => {
+                                  setNewRelation(null);
+                                  setRelationError("");
+                                }}
+                                className="px-2 py-1 border border-gray-300 rounded text-xs text-gray-700 hover:bg-gray-50"
+                              >
+                                取消
+                              </button>
+                              <button
+                                type="submit"
+                                className="px-2 py-1 bg-indigo-600 hover:bg-indigo-700 text-white rounded text-xs"
+                              >
+                                添加
+                              </button>
+                            </div>
+                          </form>
+                        ) : !readOnly && (
+                          <button
+                            onClick={() =>
+                              setNewRelation({
+                                from: selectedNode.name,
+                                to: "",
+                                relationType: "",
+                              })
+                            }
+                            className="px-2 py-1 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-xs"
+                          >
+                            + Add relation
+                          </button>
+                        )}
                       </>
                     ) : null}
                     {/* MOVED RELATIONS BLOCK ENDS HERE */}
@@ -1349,7 +4009,10 @@ const KnowledgeGraphVisualization = () => {
           <div className="bg-gray-100 p-2 border-t border-gray-300 text-xs text-gray-600">
             <p>
               <span className="font-medium">Instructions:</span> Drag nodes to
-              reposition. Zoom with mouse wheel. Click a node to see details.
+              reposition; dropped nodes stay pinned until released. Zoom with mouse wheel. Click a node to see details.
+              Shift+drag from one node to another to connect them. Double-click
+              empty space to create an entity. Drop more memory files here to
+              merge them into the graph.
             </p>
           </div>
         </div>
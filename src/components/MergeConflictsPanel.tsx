@@ -0,0 +1,64 @@
+import type { TypeConflict } from "../utils/mergeGraphs";
+
+interface MergeConflictsPanelProps {
+  conflicts: TypeConflict[];
+  onResolve: (conflict: TypeConflict, entityType: string) => void;
+  onSelectEntity: (name: string) => void;
+  onClose: () => void;
+}
+
+// Entities whose merged files disagree on entityType, with one button per
+// candidate type to settle on
+const MergeConflictsPanel = ({
+  conflicts,
+  onResolve,
+  onSelectEntity,
+  onClose,
+}: MergeConflictsPanelProps) => (
+  <div className="w-full max-w-xl max-h-[90vh] overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-left">
+    <div className="flex justify-between items-center p-4 border-b border-gray-200">
+      <div>
+        <h2 className="text-lg font-bold">Entity Type Conflicts</h2>
+        <p className="text-sm text-gray-600">
+          These entities have a different type in different files. The type
+          from the first file is kept until you pick one.
+        </p>
+      </div>
+      <button
+        onClick={onClose}
+        className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-sm"
+      >
+        ✕
+      </button>
+    </div>
+    {conflicts.length === 0 ? (
+      <p className="p-4 text-sm text-gray-600">All conflicts are resolved.</p>
+    ) : (
+      <ul className="divide-y divide-gray-100">
+        {conflicts.map((conflict) => (
+          <li key={conflict.name} className="p-4 text-sm">
+            <button
+              onClick={() => onSelectEntity(conflict.name)}
+              className="font-medium text-blue-600 hover:underline"
+            >
+              {conflict.name}
+            </button>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {conflict.types.map((type) => (
+                <button
+                  key={type}
+                  onClick={() => onResolve(conflict, type)}
+                  className="px-2 py-1 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-xs"
+                >
+                  {type}
+                </button>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+export default MergeConflictsPanel;
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import {
+  memoryFormatLabels,
+  type ParseIssue,
+  type SourceReport,
+} from "../utils/memoryJson";
+
+interface ParseReportPanelProps {
+  reports: SourceReport[];
+  // Re-parse a corrected record; returns the reason it is still rejected,
+  // or null once it has been accepted
+  onFixLine: (source: string, issue: ParseIssue, text: string) => string | null;
+  readOnly?: boolean; // records can't be fixed while comparing snapshots
+  onClose: () => void;
+}
+
+// Lists every rejected record of the loaded files with the reason it was
+// rejected, and lets each one be corrected and parsed again
+const ParseReportPanel = ({
+  reports,
+  onFixLine,
+  readOnly = false,
+  onClose,
+}: ParseReportPanelProps) => {
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const issueKey = (source: string, issue: ParseIssue) => `${source}:${issue.line}`;
+
+  const handleReparse = (source: string, issue: ParseIssue) => {
+    const key = issueKey(source, issue);
+    const reason = onFixLine(source, issue, drafts[key] ?? issue.raw);
+    setErrors({ ...errors, [key]: reason ?? "" });
+  };
+
+  return (
+    <div className="w-full max-w-3xl max-h-[90vh] overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-left">
+      <div className="flex justify-between items-center p-4 border-b border-gray-200">
+        <h2 className="text-lg font-bold">Parse Report</h2>
+        <button
+          onClick={onClose}
+          className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-sm"
+        >
+          ✕
+        </button>
+      </div>
+
+      {reports.map(({ source, report }, reportIndex) => (
+        <div key={`${source}-${reportIndex}`} className="border-b border-gray-200">
+          <div className="p-4 bg-gray-50">
+            <h3 className="font-medium">{source}</h3>
+            <p className="text-sm text-gray-600">
+              Detected format: {memoryFormatLabels[report.format]}
+            </p>
+            <p className="text-sm text-gray-600">
+              {report.recordCount} record(s) read: {report.entityCount} entities,{" "}
+              {report.relationCount} relations,{" "}
+              <span className={report.issues.length > 0 ? "text-red-600 font-medium" : ""}>
+                {report.issues.length} rejected
+              </span>
+              {report.inferredTypeCount > 0 &&
+                ` (${report.inferredTypeCount} without "type", inferred from their fields)`}
+            </p>
+          </div>
+
+          {report.issues.length === 0 ? (
+            <p className="p-4 text-sm text-gray-600">Every record was parsed successfully.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {report.issues.map((issue) => {
+                const key = issueKey(source, issue);
+                return (
+                  <li key={key} className="p-4 text-sm">
+                    <div className="flex justify-between mb-1">
+                      <span className="font-medium">
+                        {report.format === "jsonl" ? "Line" : "Record"} {issue.line}
+                      </span>
+                      <span className="text-red-600">{issue.reason}</span>
+                    </div>
+                    <textarea
+                      rows={2}
+                      value={drafts[key] ?? issue.raw}
+                      onChange={(e) =>
+                        setDrafts({ ...drafts, [key]: e.target.value })
+                      }
+                      className="w-full p-2 font-mono text-xs border border-gray-300 rounded"
+                    />
+                    <div className="flex justify-between items-center mt-1">
+                      <span className="text-xs text-red-600">{errors[key]}</span>
+                      <button
+                        onClick={() => handleReparse(source, issue)}
+                        disabled={readOnly}
+                        title={readOnly ? "Leave compare mode to fix records" : undefined}
+                        className="px-2 py-1 bg-purple-100 hover:bg-purple-200 disabled:bg-gray-100 disabled:text-gray-400 text-purple-700 rounded text-xs"
+                      >
+                        Re-parse
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ParseReportPanel;
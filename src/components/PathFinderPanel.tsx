@@ -0,0 +1,163 @@
+import { formatPath, pathEntities, type PathStep } from "../utils/pathFinder";
+import type { TypeFilter } from "../utils/typeFilter";
+import TypeFilterDropdown from "./TypeFilterDropdown";
+
+interface PathFinderPanelProps {
+  from: string;
+  to: string;
+  onChangeEnds: (from: string, to: string) => void;
+  directed: boolean;
+  onChangeDirected: (directed: boolean) => void;
+  relationTypes: string[];
+  relationTypeCounts: Map<string, number>;
+  relationFilter: TypeFilter;
+  onChangeRelationFilter: (filter: TypeFilter) => void;
+  // null until both ends name known entities
+  paths: PathStep[][] | null;
+  selectedPath: number;
+  onSelectPath: (index: number) => void;
+  onSelectEntity: (name: string) => void;
+  onClose: () => void;
+}
+
+// Finds how two entities are connected and lists the shortest chains of
+// relations between them
+const PathFinderPanel = ({
+  from,
+  to,
+  onChangeEnds,
+  directed,
+  onChangeDirected,
+  relationTypes,
+  relationTypeCounts,
+  relationFilter,
+  onChangeRelationFilter,
+  paths,
+  selectedPath,
+  onSelectPath,
+  onSelectEntity,
+  onClose,
+}: PathFinderPanelProps) => (
+  <div className="w-96 max-h-full overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+    <div className="flex justify-between items-center p-3 border-b border-gray-200">
+      <h3 className="font-bold text-purple-800">Find Path</h3>
+      <button
+        onClick={onClose}
+        className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+      >
+        ✕
+      </button>
+    </div>
+    <div className="p-3 space-y-2">
+      <div className="flex items-end gap-2">
+        <label className="flex-1">
+          <span className="block text-xs text-gray-600">From</span>
+          <input
+            type="text"
+            list="entityNameOptions"
+            value={from}
+            onChange={(e) => onChangeEnds(e.target.value, to)}
+            className="w-full p-1 border border-gray-300 rounded"
+          />
+        </label>
+        <button
+          onClick={() => onChangeEnds(to, from)}
+          title="Swap"
+          className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded"
+        >
+          ⇄
+        </button>
+        <label className="flex-1">
+          <span className="block text-xs text-gray-600">To</span>
+          <input
+            type="text"
+            list="entityNameOptions"
+            value={to}
+            onChange={(e) => onChangeEnds(from, e.target.value)}
+            className="w-full p-1 border border-gray-300 rounded"
+          />
+        </label>
+      </div>
+      <label className="flex items-center text-xs text-gray-700">
+        <input
+          type="checkbox"
+          checked={directed}
+          onChange={(e) => onChangeDirected(e.target.checked)}
+          className="mr-1"
+        />
+        Follow relations only in their direction
+      </label>
+      <div>
+        <label htmlFor="pathRelationTypes" className="block text-xs text-gray-600">
+          Relation types
+        </label>
+        <TypeFilterDropdown
+          id="pathRelationTypes"
+          types={relationTypes}
+          counts={relationTypeCounts}
+          filter={relationFilter}
+          onChange={onChangeRelationFilter}
+        />
+      </div>
+    </div>
+    <div className="p-3 border-t border-gray-200">
+      {paths === null ? (
+        <p className="text-gray-500">Pick two entities to connect.</p>
+      ) : paths.length === 0 ? (
+        <p className="text-gray-700">
+          No path from <strong>{from}</strong> to <strong>{to}</strong>
+          {directed ? " following relation directions" : ""}.
+        </p>
+      ) : (
+        <>
+          <p className="text-xs text-gray-600 mb-2">
+            {paths.length === 1 ? "Shortest path" : `${paths.length} shortest paths`},{" "}
+            {paths[0].length} relation(s) long
+          </p>
+          <ul className="space-y-1">
+            {paths.map((path, i) => (
+              <li key={i}>
+                <button
+                  onClick={() => onSelectPath(i)}
+                  title={formatPath(from, path)}
+                  className={`w-full text-left p-2 rounded border ${
+                    i === selectedPath
+                      ? "border-amber-400 bg-amber-50"
+                      : "border-gray-200 hover:bg-gray-50"
+                  }`}
+                >
+                  {pathEntities(from, path).map((name, j) => {
+                    const step = path[j];
+                    return (
+                      <span key={j}>
+                        <span
+                          role="link"
+                          onClick={(event) => {
+                            event.stopPropagation();
+                            onSelectEntity(name);
+                          }}
+                          className="font-medium text-blue-600 hover:underline"
+                        >
+                          {name}
+                        </span>
+                        {step && (
+                          <span className="italic text-gray-600">
+                            {step.forward
+                              ? ` —${step.relation.relationType}→ `
+                              : ` ←${step.relation.relationType}— `}
+                          </span>
+                        )}
+                      </span>
+                    );
+                  })}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  </div>
+);
+
+export default PathFinderPanel;
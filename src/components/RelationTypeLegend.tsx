@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { DASH_PATTERN, type RelationStyle } from "../utils/linkStyle";
+
+interface RelationTypeLegendProps {
+  relationStyles: Map<string, RelationStyle>;
+  counts: Map<string, number>;
+  hiddenTypes: Set<string>;
+  onToggleType: (type: string) => void;
+  onShowOnly: (types: string[]) => void;
+  onChangeStyle: (type: string, style: Partial<RelationStyle>) => void;
+  onResetStyles: () => void;
+}
+
+const LineSwatch = ({ style }: { style: RelationStyle }) => (
+  <svg width={22} height={10} className="flex-shrink-0">
+    <line
+      x1={1}
+      y1={5}
+      x2={16}
+      y2={5}
+      stroke={style.color}
+      strokeWidth={2}
+      strokeDasharray={style.dashed ? DASH_PATTERN.join(" ") : undefined}
+    />
+    <path d="M15,1L21,5L15,9Z" fill={style.color} />
+  </svg>
+);
+
+// Relation types with their line style. The legend works as a multi-select
+// filter: clicking a type shows or hides its links.
+const RelationTypeLegend = ({
+  relationStyles,
+  counts,
+  hiddenTypes,
+  onToggleType,
+  onShowOnly,
+  onChangeStyle,
+  onResetStyles,
+}: RelationTypeLegendProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const types = [...relationStyles.keys()];
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-700">
+      <span className="text-sm font-medium">Relation types:</span>
+      {[...relationStyles].map(([type, style]) => (
+        <span key={type} className="flex items-center gap-1">
+          <button
+            onClick={() => onToggleType(type)}
+            title={hiddenTypes.has(type) ? "Show this type" : "Hide this type"}
+            className={`flex items-center gap-1 hover:underline ${
+              hiddenTypes.has(type) ? "opacity-40 line-through" : ""
+            }`}
+          >
+            <LineSwatch style={style} />
+            {type} ({counts.get(type) ?? 0})
+          </button>
+          {isEditing && (
+            <>
+              <input
+                type="color"
+                value={style.color}
+                onChange={(e) => onChangeStyle(type, { color: e.target.value })}
+                aria-label={`Color for ${type}`}
+                className="w-5 h-5 p-0 border-0 cursor-pointer"
+              />
+              <label className="flex items-center">
+                <input
+                  type="checkbox"
+                  checked={style.dashed}
+                  onChange={(e) => onChangeStyle(type, { dashed: e.target.checked })}
+                  className="mr-0.5"
+                />
+                dashed
+              </label>
+            </>
+          )}
+        </span>
+      ))}
+      {hiddenTypes.size > 0 ? (
+        <button
+          onClick={() => onShowOnly(types)}
+          className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 rounded"
+        >
+          Show all
+        </button>
+      ) : (
+        <button
+          onClick={() => onShowOnly([])}
+          className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 rounded"
+        >
+          Hide all
+        </button>
+      )}
+      <button
+        onClick={() => setIsEditing(!isEditing)}
+        className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 rounded"
+      >
+        {isEditing ? "Done" : "Customize"}
+      </button>
+      {isEditing && (
+        <button
+          onClick={onResetStyles}
+          className="px-2 py-0.5 bg-gray-200 hover:bg-gray-300 rounded"
+        >
+          Reset styles
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default RelationTypeLegend;
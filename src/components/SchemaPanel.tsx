@@ -0,0 +1,359 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import * as d3 from "d3";
+import type { Link, Node } from "../types";
+import { computeLinkOffsets, curvePath, linkGeometry } from "../utils/linkGeometry";
+import {
+  formatSchemaEdge,
+  isDeviation,
+  type Schema,
+  type SchemaEdge,
+} from "../utils/schema";
+
+interface SchemaPanelProps {
+  schema: Schema;
+  entityTypeColor: (type: string) => string;
+  onShowType: (type: string) => void;
+  onShowEdge: (edge: SchemaEdge) => void;
+  onSelectEntity: (name: string) => void;
+  onClose: () => void;
+}
+
+type SchemaSelection =
+  | { kind: "type"; entityType: string }
+  | { kind: "edge"; edge: SchemaEdge };
+
+// Links of the meta-graph, one per schema edge
+interface SchemaLink extends Link {
+  edge: SchemaEdge;
+}
+
+const WIDTH = 448;
+const HEIGHT = 320;
+const DEVIATION_COLOR = "#dc2626";
+const SELECTED_COLOR = "#7c3aed";
+// Instances listed for the selected type or edge
+const MAX_INSTANCES = 50;
+
+// Lay out the meta-graph once; a few hundred ticks settle a graph this small
+const layoutSchema = (schema: Schema) => {
+  const nodes = new Map<string, Node>(
+    schema.types.map(({ entityType }) => [
+      entityType,
+      { id: entityType, name: entityType, entityType, observations: [] },
+    ])
+  );
+  const links: SchemaLink[] = schema.edges.map((edge) => ({
+    source: nodes.get(edge.fromType),
+    target: nodes.get(edge.toType),
+    type: edge.relationType,
+    edge,
+  }));
+  d3.forceSimulation([...nodes.values()])
+    .force(
+      "link",
+      d3
+        .forceLink<Node, SchemaLink>(links.filter((link) => link.source !== link.target))
+        .distance(130)
+    )
+    .force("charge", d3.forceManyBody().strength(-500))
+    .force("center", d3.forceCenter(WIDTH / 2, HEIGHT / 2))
+    .force("collide", d3.forceCollide(40))
+    .stop()
+    .tick(300);
+  return { nodes: [...nodes.values()], links };
+};
+
+// The implicit schema of the graph as its own small graph: entity types
+// linked by the relation types used between them. Relation usages that
+// deviate from a relation type's usual pattern are flagged.
+const SchemaPanel = ({
+  schema,
+  entityTypeColor,
+  onShowType,
+  onShowEdge,
+  onSelectEntity,
+  onClose,
+}: SchemaPanelProps) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selection, setSelection] = useState<SchemaSelection | null>(null);
+
+  const layout = useMemo(() => layoutSchema(schema), [schema]);
+  const counts = useMemo(
+    () => new Map(schema.types.map((type) => [type.entityType, type.names.length])),
+    [schema]
+  );
+  const deviations = useMemo(() => schema.edges.filter(isDeviation), [schema]);
+
+  // Drop a selection that no longer exists after the graph changed
+  useEffect(() => {
+    setSelection(null);
+  }, [schema]);
+
+  // Draw the meta-graph
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg.selectAll("*").remove();
+    svg
+      .append("defs")
+      .selectAll("marker")
+      .data([
+        ["schema-arrow", "#9ca3af"],
+        ["schema-arrow-deviation", DEVIATION_COLOR],
+      ])
+      .join("marker")
+      .attr("id", ([id]) => id)
+      .attr("viewBox", "0 -5 10 10")
+      .attr("refX", 9)
+      .attr("markerWidth", 6)
+      .attr("markerHeight", 6)
+      .attr("orient", "auto")
+      .append("path")
+      .attr("d", "M0,-5L10,0L0,5")
+      .attr("fill", ([, color]) => color);
+    const canvas = svg.append("g");
+    svg.call(
+      d3
+        .zoom<SVGSVGElement, unknown>()
+        .scaleExtent([0.3, 3])
+        .on("zoom", (event) => canvas.attr("transform", event.transform))
+    );
+
+    const maxCount = d3.max(schema.types, (type) => type.names.length) || 1;
+    const radius = d3.scaleSqrt().domain([0, maxCount]).range([6, 22]);
+    const nodeRadius = (node: Node) => radius(counts.get(node.id) ?? 0);
+    const offsets = computeLinkOffsets(layout.links);
+
+    const link = canvas
+      .selectAll<SVGGElement, SchemaLink>("g.schema-link")
+      .data(layout.links)
+      .join("g")
+      .attr("class", "schema-link")
+      .attr("cursor", "pointer")
+      .on("click", (_event, d) => setSelection({ kind: "edge", edge: d.edge }));
+    link.each(function (d) {
+      const geometry = linkGeometry(d, offsets.get(d) ?? 0, nodeRadius);
+      if (!geometry) return;
+      const deviation = isDeviation(d.edge);
+      const group = d3.select(this);
+      group
+        .append("path")
+        .attr("d", curvePath(geometry.curve))
+        .attr("fill", "none")
+        .attr("stroke", deviation ? DEVIATION_COLOR : "#9ca3af")
+        .attr("stroke-width", 1.5)
+        .attr("stroke-dasharray", deviation ? "4 3" : null)
+        .attr(
+          "marker-end",
+          `url(#${deviation ? "schema-arrow-deviation" : "schema-arrow"})`
+        );
+      group
+        .append("text")
+        .attr(
+          "transform",
+          `translate(${geometry.label.x},${geometry.label.y}) rotate(${
+            (geometry.label.angle * 180) / Math.PI
+          })`
+        )
+        .attr("dy", -3)
+        .attr("text-anchor", "middle")
+        .attr("font-size", 9)
+        .attr("fill", deviation ? DEVIATION_COLOR : "#4b5563")
+        .text(`${d.edge.relationType} (${d.edge.relations.length})`);
+      group.append("title").text(formatSchemaEdge(d.edge));
+    });
+
+    const node = canvas
+      .selectAll<SVGGElement, Node>("g.schema-node")
+      .data(layout.nodes)
+      .join("g")
+      .attr("class", "schema-node")
+      .attr("transform", (d) => `translate(${d.x},${d.y})`)
+      .attr("cursor", "pointer")
+      .on("click", (_event, d) => setSelection({ kind: "type", entityType: d.id }));
+    node
+      .append("circle")
+      .attr("r", nodeRadius)
+      .attr("fill", (d) => entityTypeColor(d.id))
+      .attr("stroke", "#fff")
+      .attr("stroke-width", 1.5);
+    node
+      .append("text")
+      .attr("y", (d) => nodeRadius(d) + 11)
+      .attr("text-anchor", "middle")
+      .attr("font-size", 10)
+      .attr("font-weight", 600)
+      .attr("fill", "#1f2937")
+      .text((d) => `${d.id} (${counts.get(d.id)})`);
+  }, [layout, counts, schema, entityTypeColor]);
+
+  // Outline the selected type or edge
+  useEffect(() => {
+    if (!svgRef.current) return;
+    const svg = d3.select(svgRef.current);
+    svg
+      .selectAll<SVGCircleElement, Node>("g.schema-node circle")
+      .attr("stroke", (d) =>
+        selection?.kind === "type" && selection.entityType === d.id ? SELECTED_COLOR : "#fff"
+      )
+      .attr("stroke-width", (d) =>
+        selection?.kind === "type" && selection.entityType === d.id ? 3 : 1.5
+      );
+    svg
+      .selectAll<SVGPathElement, SchemaLink>("g.schema-link path")
+      .attr("stroke-width", (d) =>
+        selection?.kind === "edge" && selection.edge === d.edge ? 3 : 1.5
+      );
+  }, [selection, layout]);
+
+  const renderEntityName = (name: string) => (
+    <button onClick={() => onSelectEntity(name)} className="text-blue-600 hover:underline">
+      {name}
+    </button>
+  );
+
+  const renderSelection = () => {
+    if (!selection) {
+      return (
+        <p className="text-gray-500">
+          Click a type or relation to list its instances. Drag to pan, scroll to zoom.
+        </p>
+      );
+    }
+    if (selection.kind === "type") {
+      const { entityType } = selection;
+      const names =
+        schema.types.find((type) => type.entityType === entityType)?.names ?? [];
+      const edges = schema.edges.filter(
+        (edge) => edge.fromType === entityType || edge.toType === entityType
+      );
+      return (
+        <>
+          <div className="flex justify-between items-center mb-1">
+            <h4 className="font-semibold">
+              {entityType} ({names.length})
+            </h4>
+            <button
+              onClick={() => onShowType(entityType)}
+              className="px-2 py-0.5 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-xs"
+            >
+              Show in graph
+            </button>
+          </div>
+          {edges.length > 0 && (
+            <ul className="mb-2 text-xs space-y-0.5">
+              {edges.map((edge) => (
+                <li key={formatSchemaEdge(edge)}>
+                  <button
+                    onClick={() => setSelection({ kind: "edge", edge })}
+                    className={`hover:underline ${
+                      isDeviation(edge) ? "text-red-600" : "text-gray-700"
+                    }`}
+                  >
+                    {formatSchemaEdge(edge)}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <ul className="text-xs flex flex-wrap gap-x-2">
+            {names.slice(0, MAX_INSTANCES).map((name) => (
+              <li key={name}>{renderEntityName(name)}</li>
+            ))}
+          </ul>
+          {names.length > MAX_INSTANCES && (
+            <p className="text-xs text-gray-500">and {names.length - MAX_INSTANCES} more</p>
+          )}
+        </>
+      );
+    }
+    const { edge } = selection;
+    return (
+      <>
+        <div className="flex justify-between items-center mb-1">
+          <h4 className={`font-semibold ${isDeviation(edge) ? "text-red-700" : ""}`}>
+            {formatSchemaEdge(edge)}
+          </h4>
+          <button
+            onClick={() => onShowEdge(edge)}
+            className="px-2 py-0.5 bg-purple-100 hover:bg-purple-200 text-purple-700 rounded text-xs"
+          >
+            Show in graph
+          </button>
+        </div>
+        <p className="text-xs text-gray-600 mb-1">
+          {Math.round(edge.share * 100)}% of {edge.relationType} relations
+          {edge.dominant &&
+            `; usually ${edge.dominant.fromType} → ${edge.dominant.toType}`}
+        </p>
+        <ul className="text-xs space-y-0.5">
+          {edge.relations.slice(0, MAX_INSTANCES).map((relation, i) => (
+            <li key={i}>
+              {renderEntityName(relation.from)}
+              <span className="italic text-gray-600"> —{relation.relationType}→ </span>
+              {renderEntityName(relation.to)}
+            </li>
+          ))}
+        </ul>
+        {edge.relations.length > MAX_INSTANCES && (
+          <p className="text-xs text-gray-500">
+            and {edge.relations.length - MAX_INSTANCES} more
+          </p>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <div className="w-[30rem] max-h-full overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-center p-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-purple-800">Schema</h3>
+          <p className="text-xs text-gray-600">
+            {schema.types.length} entity types · {schema.edges.length} relation patterns
+            {deviations.length > 0 && ` · ${deviations.length} possible mistake(s)`}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+        >
+          ✕
+        </button>
+      </div>
+      <svg
+        ref={svgRef}
+        width={WIDTH}
+        height={HEIGHT}
+        className="mx-auto block border-b border-gray-200 bg-gray-50"
+      />
+      <div className="p-3 border-b border-gray-200">{renderSelection()}</div>
+      <div className="p-3">
+        <h4 className="font-semibold mb-1">Possible mistakes</h4>
+        {deviations.length === 0 ? (
+          <p className="text-gray-500">Every relation type follows its usual pattern</p>
+        ) : (
+          <ul className="space-y-1 text-xs">
+            {deviations.map((edge) => (
+              <li key={formatSchemaEdge(edge)}>
+                <button
+                  onClick={() => setSelection({ kind: "edge", edge })}
+                  className="text-left text-red-700 hover:underline"
+                >
+                  {formatSchemaEdge(edge)}
+                </button>
+                <span className="text-gray-600">
+                  {" "}
+                  — usually {edge.dominant.fromType} → {edge.dominant.toType} (
+                  {edge.dominant.relations.length})
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SchemaPanel;
@@ -0,0 +1,114 @@
+import { useEffect, useRef } from "react";
+import type { QueryMatch, SearchResult } from "../utils/graphQuery";
+
+interface SearchResultsProps {
+  id: string;
+  results: SearchResult[];
+  totalCount: number;
+  activeIndex: number;
+  onHover: (index: number) => void;
+  onSelect: (result: SearchResult) => void;
+}
+
+// Characters of context kept on each side of a match in long observations
+const SNIPPET_CONTEXT = 30;
+
+const fieldLabels: Record<QueryMatch["field"], string> = {
+  name: "name",
+  type: "type",
+  obs: "observation",
+  rel: "relation",
+  source: "source",
+};
+
+const Highlight = ({ match }: { match: QueryMatch }) => {
+  const { text, start, end } = match;
+  const from = Math.max(0, start - SNIPPET_CONTEXT);
+  const to = Math.min(text.length, end + SNIPPET_CONTEXT);
+  return (
+    <>
+      {from > 0 && "…"}
+      {text.slice(from, start)}
+      <mark className="bg-yellow-200 rounded-sm">{text.slice(start, end)}</mark>
+      {text.slice(end, to)}
+      {to < text.length && "…"}
+    </>
+  );
+};
+
+// Entities matching the search, with what matched highlighted
+const SearchResults = ({
+  id,
+  results,
+  totalCount,
+  activeIndex,
+  onHover,
+  onSelect,
+}: SearchResultsProps) => {
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Keep the active result in view while moving through the list
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [activeIndex]);
+
+  return (
+    <div
+      className="absolute z-30 mt-1 w-full bg-white border border-gray-300 rounded shadow-lg text-sm"
+      // Keep focus in the search input so the keyboard keeps working
+      onMouseDown={(event) => event.preventDefault()}
+    >
+      {results.length === 0 ? (
+        <p className="p-2 text-gray-500">No matching entities</p>
+      ) : (
+        <ul ref={listRef} id={id} role="listbox" className="max-h-80 overflow-y-auto">
+          {results.map((result, i) => {
+            const nameMatch = result.matches.find((match) => match.field === "name");
+            const otherMatches = result.matches
+              .filter((match) => match.field !== "name")
+              .slice(0, 2);
+            return (
+              <li
+                key={result.entity.name}
+                id={`${id}-${i}`}
+                data-index={i}
+                role="option"
+                aria-selected={i === activeIndex}
+                onMouseEnter={() => onHover(i)}
+                onClick={() => onSelect(result)}
+                className={`px-2 py-1 cursor-pointer border-b border-gray-100 ${
+                  i === activeIndex ? "bg-purple-100" : "hover:bg-gray-50"
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-medium truncate">
+                    {nameMatch ? <Highlight match={nameMatch} /> : result.entity.name}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-500 flex-shrink-0">
+                    {result.entity.entityType}
+                  </span>
+                </div>
+                {otherMatches.map((match, j) => (
+                  <div key={j} className="text-xs text-gray-600 truncate">
+                    <span className="text-gray-400">{fieldLabels[match.field]}: </span>
+                    <Highlight match={match} />
+                  </div>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {totalCount > results.length && (
+        <p className="px-2 py-1 text-xs text-gray-500">
+          Showing {results.length} of {totalCount} matches; refine the query to see
+          the rest
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SearchResults;
@@ -0,0 +1,272 @@
+import { useMemo } from "react";
+import * as d3 from "d3";
+import type { GraphDistributions, HistogramBin } from "../utils/stats";
+import type { TypeFilter } from "../utils/typeFilter";
+import BarChart, { type Bar } from "./BarChart";
+
+interface StatsDashboardProps {
+  distributions: GraphDistributions;
+  entityTypeColor: (type: string) => string;
+  relationTypeColor: (type: string) => string;
+  entityTypeFilter: TypeFilter;
+  relationTypeFilter: TypeFilter;
+  // Text of the query applied to the graph, if any
+  query: string | null;
+  onFilterEntityType: (type: string) => void;
+  onFilterRelationType: (type: string) => void;
+  onFilterTypeConnection: (fromType: string, toType: string, relationTypes: string[]) => void;
+  onQuery: (query: string) => void;
+  onClose: () => void;
+}
+
+const CHART_WIDTH = 320;
+// Entity types shown as rows and columns of the relation matrix
+const MATRIX_TYPES = 12;
+
+// Bars for a histogram, keyed by the query that selects the bin
+const histogramBars = (bins: HistogramBin[], toQuery: (bin: HistogramBin) => string): Bar[] =>
+  bins.map((bin) => {
+    const label = bin.x1 - bin.x0 === 1 ? `${bin.x0}` : `${bin.x0}–${bin.x1 - 1}`;
+    return { key: toQuery(bin), label, value: bin.count, title: `${label}: ${bin.count}` };
+  });
+
+const rangeQuery = (field: string, bin: HistogramBin) =>
+  bin.x1 - bin.x0 === 1 ? `${field}=${bin.x0}` : `${field}>=${bin.x0} ${field}<${bin.x1}`;
+
+// Observations whose length in characters falls into the bin
+const lengthQuery = (bin: HistogramBin) => `obs:/^[\\s\\S]{${bin.x0},${bin.x1 - 1}}$/`;
+
+// Distributions over the whole graph; clicking a bar or matrix cell filters
+// the graph to it
+const StatsDashboard = ({
+  distributions,
+  entityTypeColor,
+  relationTypeColor,
+  entityTypeFilter,
+  relationTypeFilter,
+  query,
+  onFilterEntityType,
+  onFilterRelationType,
+  onFilterTypeConnection,
+  onQuery,
+  onClose,
+}: StatsDashboardProps) => {
+  const entityBars = useMemo(
+    () =>
+      distributions.entitiesPerType.map(([type, count]) => ({
+        key: type,
+        label: type,
+        value: count,
+        color: entityTypeColor(type),
+      })),
+    [distributions, entityTypeColor]
+  );
+  const relationBars = useMemo(
+    () =>
+      distributions.relationsPerType.map(([type, count]) => ({
+        key: type,
+        label: type,
+        value: count,
+        color: relationTypeColor(type),
+      })),
+    [distributions, relationTypeColor]
+  );
+  const degreeBars = useMemo(
+    () => histogramBars(distributions.degrees, (bin) => rangeQuery("degree", bin)),
+    [distributions]
+  );
+  const observationCountBars = useMemo(
+    () => histogramBars(distributions.observationCounts, (bin) => rangeQuery("obs", bin)),
+    [distributions]
+  );
+  const observationLengthBars = useMemo(
+    () => histogramBars(distributions.observationLengths, lengthQuery),
+    [distributions]
+  );
+  const activeQuery = useMemo(() => new Set(query ? [query] : []), [query]);
+
+  const matrix = useMemo(() => {
+    const types = distributions.entitiesPerType
+      .slice(0, MATRIX_TYPES)
+      .map(([type]) => type);
+    const cells = new Map<string, { count: number; relations: Map<string, number> }>();
+    distributions.typeConnections.forEach((connection) => {
+      const key = JSON.stringify([connection.fromType, connection.toType]);
+      let cell = cells.get(key);
+      if (!cell) cells.set(key, (cell = { count: 0, relations: new Map() }));
+      cell.count += connection.count;
+      cell.relations.set(
+        connection.relationType,
+        (cell.relations.get(connection.relationType) ?? 0) + connection.count
+      );
+    });
+    const max = d3.max([...cells.values()], (cell) => cell.count) || 1;
+    return {
+      types,
+      cell: (fromType: string, toType: string) =>
+        cells.get(JSON.stringify([fromType, toType])),
+      color: d3.scaleSequential(d3.interpolatePurples).domain([0, max]),
+      max,
+    };
+  }, [distributions]);
+
+  const renderChart = (title: string, chart: JSX.Element, hint?: string) => (
+    <section className="p-3 border border-gray-200 rounded">
+      <h4 className="font-semibold mb-1">{title}</h4>
+      {hint && <p className="text-xs text-gray-500 mb-1">{hint}</p>}
+      <div className="max-h-64 overflow-y-auto">{chart}</div>
+    </section>
+  );
+
+  return (
+    <div className="w-[44rem] max-h-full overflow-y-auto bg-white border border-gray-200 rounded-lg shadow-lg text-sm">
+      <div className="flex justify-between items-center p-3 border-b border-gray-200">
+        <div>
+          <h3 className="font-bold text-purple-800">Statistics Dashboard</h3>
+          <p className="text-xs text-gray-600">
+            Click a bar or cell to filter the graph to it; click again to clear
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 px-2 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+        >
+          ✕
+        </button>
+      </div>
+
+      <div className="p-3 grid grid-cols-2 gap-3">
+        {renderChart(
+          "Entities per type",
+          <BarChart
+            bars={entityBars}
+            orientation="horizontal"
+            activeKeys={entityTypeFilter.include}
+            onSelect={onFilterEntityType}
+            width={CHART_WIDTH}
+          />
+        )}
+        {renderChart(
+          "Relations per type",
+          <BarChart
+            bars={relationBars}
+            orientation="horizontal"
+            activeKeys={relationTypeFilter.include}
+            onSelect={onFilterRelationType}
+            width={CHART_WIDTH}
+          />
+        )}
+        {renderChart(
+          "Degree distribution",
+          <BarChart
+            bars={degreeBars}
+            orientation="vertical"
+            activeKeys={activeQuery}
+            onSelect={onQuery}
+            width={CHART_WIDTH}
+            xLabel="relations per entity"
+          />
+        )}
+        {renderChart(
+          "Observations per entity",
+          <BarChart
+            bars={observationCountBars}
+            orientation="vertical"
+            activeKeys={activeQuery}
+            onSelect={onQuery}
+            width={CHART_WIDTH}
+            xLabel="observations"
+          />
+        )}
+        {renderChart(
+          "Observation length",
+          <BarChart
+            bars={observationLengthBars}
+            orientation="vertical"
+            activeKeys={activeQuery}
+            onSelect={onQuery}
+            width={CHART_WIDTH}
+            xLabel="characters"
+          />,
+          "Filters to entities with an observation of that length"
+        )}
+      </div>
+
+      <div className="p-3 border-t border-gray-200">
+        <h4 className="font-semibold mb-1">Relations between entity types</h4>
+        <p className="text-xs text-gray-500 mb-2">
+          Rows are source types, columns target types
+          {distributions.entitiesPerType.length > MATRIX_TYPES &&
+            ` (the ${MATRIX_TYPES} most common types)`}
+        </p>
+        {matrix.types.length === 0 ? (
+          <p className="text-gray-500">No entities</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="text-xs border-collapse">
+              <thead>
+                <tr>
+                  <th />
+                  {matrix.types.map((type) => (
+                    <th
+                      key={type}
+                      title={type}
+                      className="px-1 pb-1 font-medium text-gray-600 max-w-[5rem] truncate"
+                    >
+                      {type}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {matrix.types.map((fromType) => (
+                  <tr key={fromType}>
+                    <th
+                      title={fromType}
+                      className="pr-2 text-right font-medium text-gray-600 max-w-[8rem] truncate"
+                    >
+                      {fromType}
+                    </th>
+                    {matrix.types.map((toType) => {
+                      const cell = matrix.cell(fromType, toType);
+                      if (!cell) {
+                        return (
+                          <td key={toType} className="w-12 h-7 border border-gray-100" />
+                        );
+                      }
+                      const relations = [...cell.relations].sort((a, b) => b[1] - a[1]);
+                      return (
+                        <td key={toType} className="w-12 h-7 border border-gray-100 p-0">
+                          <button
+                            onClick={() =>
+                              onFilterTypeConnection(
+                                fromType,
+                                toType,
+                                relations.map(([type]) => type)
+                              )
+                            }
+                            title={`${fromType} → ${toType}\n${relations
+                              .map(([type, count]) => `${type}: ${count}`)
+                              .join("\n")}`}
+                            style={{ backgroundColor: matrix.color(cell.count) }}
+                            className={`w-full h-full tabular-nums hover:ring-2 hover:ring-purple-400 ${
+                              cell.count > matrix.max / 2 ? "text-white" : "text-gray-800"
+                            }`}
+                          >
+                            {cell.count}
+                          </button>
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default StatsDashboard;
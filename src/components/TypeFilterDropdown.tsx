@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  emptyTypeFilter,
+  getTypeFilterMode,
+  isTypeFilterActive,
+  setTypeFilterMode,
+  type TypeFilter,
+  type TypeFilterMode,
+} from "../utils/typeFilter";
+
+interface TypeFilterDropdownProps {
+  id: string;
+  types: string[];
+  counts: Map<string, number>;
+  filter: TypeFilter;
+  onChange: (filter: TypeFilter) => void;
+}
+
+const summarize = (filter: TypeFilter) => {
+  if (!isTypeFilterActive(filter)) return "All";
+  const parts: string[] = [];
+  if (filter.include.size > 0) {
+    parts.push(
+      filter.include.size === 1 ? [...filter.include][0] : `${filter.include.size} included`
+    );
+  }
+  if (filter.exclude.size > 0) {
+    parts.push(
+      filter.exclude.size === 1
+        ? `not ${[...filter.exclude][0]}`
+        : `${filter.exclude.size} excluded`
+    );
+  }
+  return parts.join(", ");
+};
+
+const modeButtonClass = (active: boolean, color: string) =>
+  `w-6 h-6 rounded text-xs font-bold ${
+    active ? `${color} text-white` : "bg-gray-100 text-gray-500 hover:bg-gray-200"
+  }`;
+
+// Multi-select over types: each type can be included, excluded or left out
+// of the filter
+const TypeFilterDropdown = ({
+  id,
+  types,
+  counts,
+  filter,
+  onChange,
+}: TypeFilterDropdownProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleMouseDown = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [isOpen]);
+
+  const toggleMode = (type: string, mode: TypeFilterMode) =>
+    onChange(
+      setTypeFilterMode(filter, type, getTypeFilterMode(filter, type) === mode ? null : mode)
+    );
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        id={id}
+        onClick={() => setIsOpen(!isOpen)}
+        onKeyDown={(event) => event.key === "Escape" && setIsOpen(false)}
+        className="w-full p-2 border border-gray-300 rounded bg-white text-left flex justify-between items-center"
+      >
+        <span className="truncate">{summarize(filter)}</span>
+        <span className="text-gray-400 ml-2">▾</span>
+      </button>
+      {isOpen && (
+        <div className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto bg-white border border-gray-300 rounded shadow-lg p-2 text-sm">
+          <p className="text-xs text-gray-500 mb-2">
+            + shows only the included types, − hides a type
+          </p>
+          {types.length === 0 && <p className="text-gray-500">No types</p>}
+          {types.map((type) => {
+            const mode = getTypeFilterMode(filter, type);
+            return (
+              <div key={type} className="flex items-center gap-1 py-0.5">
+                <button
+                  onClick={() => toggleMode(type, "include")}
+                  title="Include this type"
+                  aria-pressed={mode === "include"}
+                  className={modeButtonClass(mode === "include", "bg-purple-600")}
+                >
+                  +
+                </button>
+                <button
+                  onClick={() => toggleMode(type, "exclude")}
+                  title="Exclude this type"
+                  aria-pressed={mode === "exclude"}
+                  className={modeButtonClass(mode === "exclude", "bg-red-500")}
+                >
+                  −
+                </button>
+                <span
+                  className={`ml-1 truncate ${mode === "exclude" ? "line-through text-gray-400" : ""}`}
+                >
+                  {type}
+                </span>
+                <span className="ml-auto text-xs text-gray-400">
+                  {counts.get(type) ?? 0}
+                </span>
+              </div>
+            );
+          })}
+          {isTypeFilterActive(filter) && (
+            <button
+              onClick={() => onChange(emptyTypeFilter())}
+              className="mt-2 w-full px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded text-xs"
+            >
+              Clear filter
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TypeFilterDropdown;
@@ -0,0 +1,46 @@
+import * as d3 from "d3";
+
+// Define types for our data structures
+export interface Entity {
+  name: string;
+  entityType: string;
+  observations: string[];
+  type: string;
+  sources?: string[]; // files the entity was loaded from (not exported)
+}
+
+export interface Relation {
+  from: string;
+  to: string;
+  relationType: string;
+  type: string;
+}
+
+export interface GraphData {
+  entities: Entity[];
+  relations: Relation[];
+}
+
+export interface Stats {
+  entityCount: number;
+  relationCount: number;
+  entityTypeCount: number;
+  relationTypeCount: number;
+}
+
+export interface Node extends d3.SimulationNodeDatum {
+  id: string;
+  name: string;
+  entityType: string;
+  observations: string[];
+  sources?: string[];
+  x?: number;
+  y?: number;
+  degree?: number;
+}
+
+export interface Link {
+  source: Node;
+  target: Node;
+  type: string;
+}
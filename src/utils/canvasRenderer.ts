@@ -0,0 +1,249 @@
+import * as d3 from "d3";
+import type { Link, Node } from "../types";
+import { linkGeometry, type LinkCurve } from "./linkGeometry";
+import { nodeShapeSymbols, type NodeShape } from "./nodeStyle";
+
+// Styling callbacks shared with the SVG renderer so both draw the same graph
+export interface GraphStyle {
+  radius: (node: Node) => number;
+  nodeFill: (node: Node) => string;
+  shape: (node: Node) => NodeShape;
+  nodeStroke: (node: Node) => string;
+  nodeStrokeWidth: (node: Node) => number;
+  linkStroke: (link: Link) => string;
+  linkOpacity: (link: Link) => number;
+  linkDash: (link: Link) => number[] | null;
+  linkLabelFill: (link: Link) => string;
+  pinned: (node: Node) => boolean;
+}
+
+// Pinned nodes are marked with a small dot at their top right
+export const PIN_COLOR = "#7c3aed";
+export const pinOffset = (radius: number) => radius * 0.75;
+
+// Zoom levels below which labels are skipped to keep large graphs fast;
+// the link label threshold is the default when none is configured
+export const NODE_LABEL_MIN_ZOOM = 0.6;
+export const LINK_LABEL_MIN_ZOOM = 1.2;
+
+// Opacity of the entities, and their links, that a highlighting search
+// doesn't match
+export const DIMMED_OPACITY = 0.15;
+
+// Links and nodes along the path picked in the path finder
+export const PATH_COLOR = "#f59e0b";
+
+// Outline of nodes in focus mode whose neighbors are not all shown yet
+export const EXPANDABLE_DASH = "3 2";
+
+export interface CanvasFrame {
+  transform: d3.ZoomTransform;
+  highlighted: Set<Node>; // always labelled, e.g. hovered or selected nodes
+  connectLine: { x1: number; y1: number; x2: number; y2: number } | null;
+  linkLabelMinZoom: number;
+  linkOffsets: Map<Link, number>; // from computeLinkOffsets
+  isNodeDimmed: (node: Node) => boolean;
+  isLinkDimmed: (link: Link) => boolean;
+  isLinkHighlighted: (link: Link) => boolean; // drawn thicker in PATH_COLOR
+  isExpandable: (node: Node) => boolean;
+}
+
+// Size the canvas backing store for the device pixel ratio
+export const setupCanvas = (
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number
+) => {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = width * ratio;
+  canvas.height = height * ratio;
+  canvas.style.width = `${width}px`;
+  canvas.style.height = `${height}px`;
+  const context = canvas.getContext("2d");
+  if (context) context.setTransform(ratio, 0, 0, ratio, 0, 0);
+  return context;
+};
+
+// Start a path along a link curve
+const traceCurve = (context: CanvasRenderingContext2D, curve: LinkCurve) => {
+  context.beginPath();
+  context.moveTo(curve.start.x, curve.start.y);
+  if (curve.kind === "line") {
+    context.lineTo(curve.end.x, curve.end.y);
+  } else if (curve.kind === "quadratic") {
+    context.quadraticCurveTo(curve.control.x, curve.control.y, curve.end.x, curve.end.y);
+  } else {
+    context.bezierCurveTo(
+      curve.control1.x,
+      curve.control1.y,
+      curve.control2.x,
+      curve.control2.y,
+      curve.end.x,
+      curve.end.y
+    );
+  }
+};
+
+const hasPosition = (node: Node) =>
+  node.x !== undefined && node.y !== undefined;
+
+// Draw one frame of the graph. Nodes and links outside the viewport are
+// skipped, and labels are only drawn once zoomed in far enough.
+export const drawGraph = (
+  context: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  nodes: Node[],
+  links: Link[],
+  style: GraphStyle,
+  frame: CanvasFrame
+) => {
+  const {
+    transform,
+    highlighted,
+    connectLine,
+    linkLabelMinZoom,
+    linkOffsets,
+    isNodeDimmed,
+    isLinkDimmed,
+    isLinkHighlighted,
+    isExpandable,
+  } = frame;
+  const [minX, minY] = transform.invert([0, 0]);
+  const [maxX, maxY] = transform.invert([width, height]);
+  const margin = 40 / transform.k;
+  const isVisible = (x: number, y: number) =>
+    x >= minX - margin &&
+    x <= maxX + margin &&
+    y >= minY - margin &&
+    y <= maxY + margin;
+
+  context.save();
+  context.clearRect(0, 0, width, height);
+  context.translate(transform.x, transform.y);
+  context.scale(transform.k, transform.k);
+
+  // Links, ending at the target node's edge with an arrowhead
+  links.forEach((link) => {
+    const { source, target } = link;
+    if (!hasPosition(source) || !hasPosition(target)) return;
+    if (!isVisible(source.x, source.y) && !isVisible(target.x, target.y)) return;
+    const geometry = linkGeometry(link, linkOffsets.get(link) ?? 0, style.radius);
+    if (!geometry) return;
+
+    const alpha = isLinkDimmed(link) ? DIMMED_OPACITY : 1;
+    const onPath = isLinkHighlighted(link);
+    const color = onPath ? PATH_COLOR : style.linkStroke(link);
+    context.globalAlpha = onPath ? 1 : style.linkOpacity(link) * alpha;
+    context.strokeStyle = color;
+    context.fillStyle = color;
+    context.lineWidth = onPath ? 3 : 1;
+    context.setLineDash(style.linkDash(link) ?? []);
+    traceCurve(context, geometry.curve);
+    context.stroke();
+    context.setLineDash([]);
+
+    const arrow = 6;
+    const { end, endAngle } = geometry;
+    const unitX = Math.cos(endAngle);
+    const unitY = Math.sin(endAngle);
+    context.beginPath();
+    context.moveTo(end.x, end.y);
+    context.lineTo(
+      end.x - unitX * arrow - unitY * arrow * 0.5,
+      end.y - unitY * arrow + unitX * arrow * 0.5
+    );
+    context.lineTo(
+      end.x - unitX * arrow + unitY * arrow * 0.5,
+      end.y - unitY * arrow - unitX * arrow * 0.5
+    );
+    context.closePath();
+    context.fill();
+
+    if (transform.k >= linkLabelMinZoom) {
+      context.save();
+      context.translate(geometry.label.x, geometry.label.y);
+      context.rotate(geometry.label.angle);
+      context.globalAlpha = 0.8 * alpha;
+      context.fillStyle = style.linkLabelFill(link);
+      context.font = "10px sans-serif";
+      context.textAlign = "center";
+      context.fillText(link.type, 0, -4);
+      context.restore();
+    }
+  });
+  context.globalAlpha = 1;
+
+  if (connectLine) {
+    context.strokeStyle = "#9370db";
+    context.lineWidth = 2;
+    context.setLineDash([4, 3]);
+    context.beginPath();
+    context.moveTo(connectLine.x1, connectLine.y1);
+    context.lineTo(connectLine.x2, connectLine.y2);
+    context.stroke();
+    context.setLineDash([]);
+  }
+
+  // Nodes
+  const showLabels = transform.k >= NODE_LABEL_MIN_ZOOM;
+  nodes.forEach((node) => {
+    if (!hasPosition(node) || !isVisible(node.x, node.y)) return;
+    const r = style.radius(node);
+    context.globalAlpha = isNodeDimmed(node) ? DIMMED_OPACITY : 1;
+    context.save();
+    context.translate(node.x, node.y);
+    context.beginPath();
+    d3.symbol(nodeShapeSymbols[style.shape(node)], Math.PI * r * r).context(context)();
+    context.fillStyle = style.nodeFill(node);
+    context.fill();
+    context.lineWidth = highlighted.has(node) ? 3 : style.nodeStrokeWidth(node);
+    context.strokeStyle = highlighted.has(node) ? "#9370db" : style.nodeStroke(node);
+    if (isExpandable(node)) context.setLineDash(EXPANDABLE_DASH.split(" ").map(Number));
+    context.stroke();
+    context.restore();
+
+    if (style.pinned(node)) {
+      context.beginPath();
+      context.arc(node.x + pinOffset(r), node.y - pinOffset(r), 3.5, 0, 2 * Math.PI);
+      context.fillStyle = PIN_COLOR;
+      context.fill();
+      context.lineWidth = 1;
+      context.strokeStyle = "#fff";
+      context.stroke();
+    }
+
+    if (showLabels || highlighted.has(node)) {
+      context.font = "500 11px sans-serif";
+      context.textAlign = "left";
+      context.textBaseline = "middle";
+      context.lineWidth = 3;
+      context.strokeStyle = "rgba(255,255,255,0.8)";
+      context.strokeText(node.name, node.x + r + 8, node.y);
+      context.fillStyle = "#333";
+      context.fillText(node.name, node.x + r + 8, node.y);
+    }
+  });
+  context.globalAlpha = 1;
+
+  context.restore();
+};
+
+// Find the node under a point in graph coordinates
+export const findNodeAt = (
+  nodes: Node[],
+  x: number,
+  y: number,
+  radius: (node: Node) => number
+): Node | undefined => {
+  // Last drawn is on top, so search from the end
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    if (!hasPosition(node)) continue;
+    const r = radius(node) + 2;
+    const dx = node.x - x;
+    const dy = node.y - y;
+    if (dx * dx + dy * dy <= r * r) return node;
+  }
+  return undefined;
+};
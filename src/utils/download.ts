@@ -0,0 +1,17 @@
+// Trigger a browser download for in-memory text content
+export const downloadTextFile = (
+  fileName: string,
+  content: string,
+  mimeType = "application/json"
+) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  // Revoking right away can cancel the download in some browsers (Safari)
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
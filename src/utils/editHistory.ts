@@ -0,0 +1,108 @@
+import type { Entity, GraphData, Relation } from "../types";
+
+// Changes to a list between two versions: the items only in the old list
+// and the items only in the new one, each with its index in that list.
+// Items are compared by identity, as edits copy only what they change.
+interface ListPatch<T> {
+  removed: [number, T][];
+  added: [number, T][];
+}
+
+const diffList = <T>(before: T[], after: T[]): ListPatch<T> => {
+  const beforeItems = new Set(before);
+  const afterItems = new Set(after);
+  const changes = (list: T[], other: Set<T>) =>
+    list.flatMap((item, i): [number, T][] => (other.has(item) ? [] : [[i, item]]));
+  return { removed: changes(before, afterItems), added: changes(after, beforeItems) };
+};
+
+// Drops one set of items and inserts the other at its indices. Edits keep
+// unchanged items in order, so this turns either version into the other.
+const patchList = <T>(list: T[], drop: [number, T][], insert: [number, T][]): T[] => {
+  const dropped = new Set(drop.map(([, item]) => item));
+  const result = list.filter((item) => !dropped.has(item));
+  insert.forEach(([i, item]) => result.splice(i, 0, item));
+  return result;
+};
+
+// A recorded graph mutation. Only what changed is kept, so long histories
+// of small edits stay cheap on large graphs.
+export interface GraphEdit {
+  id: number;
+  label: string;
+  entities: ListPatch<Entity>;
+  relations: ListPatch<Relation>;
+  timestamp: number;
+}
+
+let nextEditId = 0;
+
+export const createEdit = (label: string, before: GraphData, after: GraphData): GraphEdit => ({
+  id: nextEditId++,
+  label,
+  entities: diffList(before.entities, after.entities),
+  relations: diffList(before.relations, after.relations),
+  timestamp: Date.now(),
+});
+
+// The graph as it was before the edit
+export const undoEdit = (data: GraphData, edit: GraphEdit): GraphData => ({
+  entities: patchList(data.entities, edit.entities.added, edit.entities.removed),
+  relations: patchList(data.relations, edit.relations.added, edit.relations.removed),
+});
+
+// The graph as it was after the edit
+export const redoEdit = (data: GraphData, edit: GraphEdit): GraphData => ({
+  entities: patchList(data.entities, edit.entities.removed, edit.entities.added),
+  relations: patchList(data.relations, edit.relations.removed, edit.relations.added),
+});
+
+// Undo/redo stacks for graph edits, separate from node-selection history
+export type EditHistoryState = {
+  past: GraphEdit[];
+  future: GraphEdit[];
+};
+export type EditHistoryAction =
+  | { type: 'record'; edit: GraphEdit }
+  | { type: 'undo' }
+  | { type: 'redo' }
+  | { type: 'reset' };
+
+const MAX_EDITS = 100;
+
+export const initialEditHistory: EditHistoryState = { past: [], future: [] };
+
+export function editHistoryReducer(
+  state: EditHistoryState,
+  action: EditHistoryAction
+): EditHistoryState {
+  switch (action.type) {
+    case 'record': {
+      return {
+        past: [...state.past, action.edit].slice(-MAX_EDITS),
+        future: [],
+      };
+    }
+    case 'undo': {
+      if (state.past.length === 0) return state;
+      const edit = state.past[state.past.length - 1];
+      return {
+        past: state.past.slice(0, -1),
+        future: [edit, ...state.future],
+      };
+    }
+    case 'redo': {
+      if (state.future.length === 0) return state;
+      const [edit, ...future] = state.future;
+      return {
+        past: [...state.past, edit],
+        future,
+      };
+    }
+    case 'reset': {
+      return initialEditHistory;
+    }
+    default:
+      return state;
+  }
+}
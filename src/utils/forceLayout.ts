@@ -0,0 +1,113 @@
+import type { Link, Node } from "../types";
+
+// Messages exchanged with the layout worker. Nodes are referred to by their
+// index in the list sent with "start".
+export interface LayoutNode {
+  x?: number;
+  y?: number;
+  fx?: number; // set for pinned nodes
+  fy?: number;
+  radius: number;
+  group: number; // index of the entity type, for clustering
+}
+
+export type LayoutRequest =
+  | {
+      type: "start";
+      nodes: LayoutNode[];
+      links: { source: number; target: number }[];
+      width: number;
+      height: number;
+      alpha: number;
+      clusterByType: boolean;
+      groupCount: number;
+    }
+  | { type: "fix"; index: number; x: number | null; y: number | null }
+  | { type: "alphaTarget"; alphaTarget: number }
+  | { type: "reheat"; alpha: number }
+  | { type: "stop" };
+
+// Positions as a flat [x0, y0, x1, y1, ...] array
+export type LayoutResponse = { type: "tick"; positions: Float32Array };
+
+export interface ForceLayout {
+  fix: (node: Node, x: number | null, y: number | null) => void;
+  setAlphaTarget: (alphaTarget: number) => void;
+  reheat: (alpha: number) => void;
+  stop: () => void;
+}
+
+// Run the force simulation for the given nodes in a Web Worker. Node
+// positions are written back onto the node objects before each onTick call.
+export const startForceLayout = (
+  nodes: Node[],
+  links: Link[],
+  options: {
+    width: number;
+    height: number;
+    radius: (node: Node) => number;
+    onTick: () => void;
+    clusterByType?: boolean; // pull entities of the same type together
+    alpha?: number; // initial energy, by default based on how many nodes are placed
+  }
+): ForceLayout => {
+  const worker = new Worker(new URL("./forceLayout.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  const indexOf = new Map(nodes.map((node, i) => [node, i]));
+  const types = [...new Set(nodes.map((node) => node.entityType))];
+  const groupOf = new Map(types.map((type, i) => [type, i]));
+  const post = (message: LayoutRequest) => worker.postMessage(message);
+
+  worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+    const { positions } = event.data;
+    nodes.forEach((node, i) => {
+      // Nodes being dragged stay under the pointer
+      node.x = node.fx ?? positions[i * 2];
+      node.y = node.fy ?? positions[i * 2 + 1];
+    });
+    options.onTick();
+  };
+
+  // Nodes that already have positions only need a gentle settle
+  const placed = nodes.filter((node) => node.x !== undefined).length;
+  post({
+    type: "start",
+    nodes: nodes.map((node) => ({
+      x: node.x,
+      y: node.y,
+      fx: node.fx ?? undefined,
+      fy: node.fy ?? undefined,
+      radius: options.radius(node),
+      group: groupOf.get(node.entityType),
+    })),
+    links: links.map((link) => ({
+      source: indexOf.get(link.source),
+      target: indexOf.get(link.target),
+    })),
+    width: options.width,
+    height: options.height,
+    alpha:
+      options.alpha ?? (nodes.length > 0 && placed === nodes.length ? 0.3 : 1),
+    clusterByType: options.clusterByType ?? false,
+    groupCount: types.length,
+  });
+
+  return {
+    fix: (node, x, y) => {
+      node.fx = x;
+      node.fy = y;
+      if (x !== null && y !== null) {
+        node.x = x;
+        node.y = y;
+      }
+      post({ type: "fix", index: indexOf.get(node), x, y });
+    },
+    setAlphaTarget: (alphaTarget) => post({ type: "alphaTarget", alphaTarget }),
+    reheat: (alpha) => post({ type: "reheat", alpha }),
+    stop: () => {
+      post({ type: "stop" });
+      worker.terminate();
+    },
+  };
+};
@@ -0,0 +1,84 @@
+import * as d3 from "d3";
+import type { LayoutRequest, LayoutResponse } from "./forceLayout";
+
+type WorkerNode = d3.SimulationNodeDatum & { radius: number; group: number };
+
+let simulation: d3.Simulation<WorkerNode, undefined> | null = null;
+let nodes: WorkerNode[] = [];
+
+const postPositions = () => {
+  const positions = new Float32Array(nodes.length * 2);
+  nodes.forEach((node, i) => {
+    positions[i * 2] = node.x;
+    positions[i * 2 + 1] = node.y;
+  });
+  const response: LayoutResponse = { type: "tick", positions };
+  self.postMessage(response, { transfer: [positions.buffer] });
+};
+
+self.onmessage = (event: MessageEvent<LayoutRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case "start": {
+      simulation?.stop();
+      nodes = message.nodes.map((node) => ({ ...node }));
+      const { width, height, groupCount } = message;
+      // With clustering each entity type is pulled towards its own point on
+      // a circle around the center
+      const clusterRadius = groupCount > 1 ? Math.min(width, height) / 3 : 0;
+      const clusterCenter = (group: number) => {
+        const angle = (2 * Math.PI * group) / groupCount;
+        return [
+          width / 2 + clusterRadius * Math.cos(angle),
+          height / 2 + clusterRadius * Math.sin(angle),
+        ];
+      };
+      simulation = d3
+        .forceSimulation(nodes)
+        .alpha(message.alpha)
+        .force(
+          "link",
+          d3
+            .forceLink(message.links.map((link) => ({ ...link })))
+            .distance(180) // Increased distance to reduce overlap
+        )
+        .force("charge", d3.forceManyBody().strength(-800)) // Stronger repulsion
+        .force("center", d3.forceCenter(width / 2, height / 2))
+        .force(
+          "x",
+          message.clusterByType
+            ? d3.forceX<WorkerNode>((d) => clusterCenter(d.group)[0]).strength(0.3)
+            : d3.forceX()
+        )
+        .force(
+          "y",
+          message.clusterByType
+            ? d3.forceY<WorkerNode>((d) => clusterCenter(d.group)[1]).strength(0.3)
+            : d3.forceY()
+        )
+        .force(
+          "collision",
+          d3.forceCollide<WorkerNode>().radius((d) => d.radius + 5)
+        ) // Dynamic collision detection
+        .on("tick", postPositions);
+      break;
+    }
+    case "fix": {
+      const node = nodes[message.index];
+      if (!node) break;
+      node.fx = message.x;
+      node.fy = message.y;
+      break;
+    }
+    case "alphaTarget":
+      simulation?.alphaTarget(message.alphaTarget).restart();
+      break;
+    case "reheat":
+      simulation?.alpha(Math.max(simulation.alpha(), message.alpha)).restart();
+      break;
+    case "stop":
+      simulation?.stop();
+      simulation = null;
+      break;
+  }
+};
@@ -0,0 +1,6 @@
+import { buildGraphIndex } from "./graphIndex";
+import { computeGraphAnalytics, type AnalyticsRequest } from "./graphMetrics";
+
+self.onmessage = (event: MessageEvent<AnalyticsRequest>) => {
+  self.postMessage(computeGraphAnalytics(buildGraphIndex(event.data.data)));
+};
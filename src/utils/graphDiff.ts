@@ -0,0 +1,121 @@
+import type { Entity, GraphData, Relation } from "../types";
+import { relationKey } from "./graphEdits";
+
+export type ChangeStatus = "added" | "removed" | "modified" | "unchanged";
+
+export interface EntityChange {
+  name: string;
+  status: ChangeStatus;
+  entityType: string;
+  previousEntityType?: string; // set when the type changed
+  addedObservations: string[];
+  removedObservations: string[];
+}
+
+export interface RelationChange {
+  relation: Relation;
+  status: "added" | "removed";
+}
+
+// Differences between two snapshots of a memory graph, plus the union graph
+// that shows both (removed items come from the older snapshot)
+export interface GraphDiff {
+  entityChanges: EntityChange[]; // every changed entity, unchanged ones excluded
+  relationChanges: RelationChange[];
+  entityStatus: Map<string, ChangeStatus>;
+  relationStatus: Map<string, ChangeStatus>; // keyed by relationKey
+  union: GraphData;
+}
+
+const compareEntities = (before: Entity, after: Entity): EntityChange => {
+  const beforeObs = new Set(before.observations);
+  const afterObs = new Set(after.observations);
+  const addedObservations = after.observations.filter((obs) => !beforeObs.has(obs));
+  const removedObservations = before.observations.filter((obs) => !afterObs.has(obs));
+  const typeChanged = before.entityType !== after.entityType;
+  return {
+    name: after.name,
+    status:
+      typeChanged || addedObservations.length > 0 || removedObservations.length > 0
+        ? "modified"
+        : "unchanged",
+    entityType: after.entityType,
+    previousEntityType: typeChanged ? before.entityType : undefined,
+    addedObservations,
+    removedObservations,
+  };
+};
+
+// Compare an older snapshot with a newer one. Entities are matched by name,
+// relations by source, target and type.
+export const diffGraphs = (before: GraphData, after: GraphData): GraphDiff => {
+  const beforeEntities = new Map(before.entities.map((e) => [e.name, e]));
+  const afterNames = new Set(after.entities.map((e) => e.name));
+  const entityChanges: EntityChange[] = [];
+  const entityStatus = new Map<string, ChangeStatus>();
+
+  after.entities.forEach((e) => {
+    const previous = beforeEntities.get(e.name);
+    const change = previous
+      ? compareEntities(previous, e)
+      : {
+          name: e.name,
+          status: "added" as const,
+          entityType: e.entityType,
+          addedObservations: e.observations,
+          removedObservations: [],
+        };
+    entityStatus.set(e.name, change.status);
+    if (change.status !== "unchanged") entityChanges.push(change);
+  });
+
+  const removedEntities = before.entities.filter((e) => !afterNames.has(e.name));
+  removedEntities.forEach((e) => {
+    entityStatus.set(e.name, "removed");
+    entityChanges.push({
+      name: e.name,
+      status: "removed",
+      entityType: e.entityType,
+      addedObservations: [],
+      removedObservations: e.observations,
+    });
+  });
+
+  const beforeKeys = new Set(before.relations.map(relationKey));
+  const afterKeys = new Set(after.relations.map(relationKey));
+  const relationChanges: RelationChange[] = [];
+  const relationStatus = new Map<string, ChangeStatus>();
+
+  after.relations.forEach((r) => {
+    const key = relationKey(r);
+    const status = beforeKeys.has(key) ? "unchanged" : "added";
+    relationStatus.set(key, status);
+    if (status === "added") relationChanges.push({ relation: r, status });
+  });
+  const removedRelations = before.relations.filter(
+    (r) => !afterKeys.has(relationKey(r))
+  );
+  removedRelations.forEach((r) => {
+    relationStatus.set(relationKey(r), "removed");
+    relationChanges.push({ relation: r, status: "removed" });
+  });
+
+  return {
+    entityChanges,
+    relationChanges,
+    entityStatus,
+    relationStatus,
+    union: {
+      entities: [...after.entities, ...removedEntities],
+      relations: [...after.relations, ...removedRelations],
+    },
+  };
+};
+
+// Colors used for change status on the canvas and in the changes panel
+export const changeStatusColors: Record<ChangeStatus, string> = {
+  added: "#22c55e",
+  removed: "#ef4444",
+  modified: "#f59e0b",
+  unchanged: "#cbd5e1",
+};
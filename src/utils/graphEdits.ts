@@ -0,0 +1,115 @@
+import type { Entity, GraphData, Relation } from "../types";
+
+export type EntityFields = Pick<Entity, "name" | "entityType" | "observations">;
+
+// Entity names are the join key for relations, so they must stay unique
+export const hasEntity = (data: GraphData, name: string): boolean =>
+  data.entities.some((e) => e.name === name);
+
+// Append a new entity in the memory server's format
+export const addEntity = (
+  data: GraphData,
+  fields: EntityFields
+): GraphData => ({
+  ...data,
+  entities: [...data.entities, { type: "entity", ...fields }],
+});
+
+// Identity of a relation: same endpoints and type means same relation
+export const relationKey = (r: Pick<Relation, "from" | "to" | "relationType">) =>
+  JSON.stringify([r.from, r.to, r.relationType]);
+
+// Remove an entity and clean up the relations that reference it.
+// Without `repointTo` those relations are dropped; with it they are moved
+// onto that entity instead, skipping any that would duplicate an existing
+// relation.
+export const deleteEntity = (
+  data: GraphData,
+  name: string,
+  repointTo?: string
+): GraphData => {
+  const entities = data.entities.filter((e) => e.name !== name);
+
+  if (!repointTo) {
+    return {
+      entities,
+      relations: data.relations.filter(
+        (r) => r.from !== name && r.to !== name
+      ),
+    };
+  }
+
+  const untouched = data.relations.filter(
+    (r) => r.from !== name && r.to !== name
+  );
+  const seen = new Set(untouched.map(relationKey));
+  const relations: Relation[] = [];
+  data.relations.forEach((r) => {
+    if (r.from !== name && r.to !== name) {
+      relations.push(r);
+      return;
+    }
+    const moved = {
+      ...r,
+      from: r.from === name ? repointTo : r.from,
+      to: r.to === name ? repointTo : r.to,
+    };
+    const key = relationKey(moved);
+    if (!seen.has(key)) {
+      seen.add(key);
+      relations.push(moved);
+    }
+  });
+
+  return { entities, relations };
+};
+
+export type RelationFields = Pick<Relation, "from" | "to" | "relationType">;
+
+// Find a relation with exactly these endpoints and type
+export const findRelation = (
+  data: GraphData,
+  fields: RelationFields
+): Relation | undefined =>
+  data.relations.find(
+    (r) =>
+      r.from === fields.from &&
+      r.to === fields.to &&
+      r.relationType === fields.relationType
+  );
+
+// Append a new relation in the memory server's format
+export const addRelation = (
+  data: GraphData,
+  fields: RelationFields
+): GraphData => ({
+  ...data,
+  relations: [...data.relations, { type: "relation", ...fields }],
+});
+
+// Replace one relation (matched by identity) with an updated copy,
+// keeping its position in the list
+export const updateRelation = (
+  data: GraphData,
+  relation: Relation,
+  changes: Partial<RelationFields>
+): GraphData => ({
+  ...data,
+  relations: data.relations.map((r) =>
+    r === relation ? { ...r, ...changes } : r
+  ),
+});
+
+export const reverseRelation = (
+  data: GraphData,
+  relation: Relation
+): GraphData =>
+  updateRelation(data, relation, { from: relation.to, to: relation.from });
+
+export const removeRelation = (
+  data: GraphData,
+  relation: Relation
+): GraphData => ({
+  ...data,
+  relations: data.relations.filter((r) => r !== relation),
+});
@@ -0,0 +1,231 @@
+import type { Entity, GraphData, Relation } from "../types";
+import { relationKey } from "./graphEdits";
+
+// A single finding of the integrity linter
+export interface HealthIssue {
+  message: string;
+  entityName?: string; // entity to navigate to, when there is one
+}
+
+export interface HealthCategory {
+  id: string;
+  title: string;
+  description: string;
+  issues: HealthIssue[];
+  // One-click fix; categories without one are only reported
+  fixLabel?: string;
+  fix?: (data: GraphData) => GraphData;
+}
+
+const describeRelation = (r: Relation) =>
+  `${r.from} —${r.relationType}→ ${r.to}`;
+
+const entityNames = (data: GraphData) =>
+  new Set(data.entities.map((e) => e.name));
+
+const connectedNames = (data: GraphData) => {
+  const names = new Set<string>();
+  data.relations.forEach((r) => {
+    names.add(r.from);
+    names.add(r.to);
+  });
+  return names;
+};
+
+const isBlank = (obs: string) => obs.trim() === "";
+
+// Relations whose source or target doesn't match any entity
+const findDanglingRelations = (data: GraphData) => {
+  const names = entityNames(data);
+  return data.relations.filter((r) => !names.has(r.from) || !names.has(r.to));
+};
+
+const removeDanglingRelations = (data: GraphData): GraphData => {
+  const dangling = new Set(findDanglingRelations(data));
+  return { ...data, relations: data.relations.filter((r) => !dangling.has(r)) };
+};
+
+// Names used by more than one entity, with how often they occur
+const findDuplicateEntities = (data: GraphData) => {
+  const counts = new Map<string, number>();
+  data.entities.forEach((e) => counts.set(e.name, (counts.get(e.name) ?? 0) + 1));
+  return [...counts].filter(([, count]) => count > 1);
+};
+
+// Fold entities sharing a name into the first one, keeping its type and
+// unioning the observations and the files they came from
+const mergeDuplicateEntities = (data: GraphData): GraphData => {
+  const merged = new Map<string, Entity>();
+  data.entities.forEach((e) => {
+    const existing = merged.get(e.name);
+    if (!existing) {
+      merged.set(e.name, e);
+      return;
+    }
+    merged.set(e.name, {
+      ...existing,
+      observations: [...new Set([...existing.observations, ...e.observations])],
+      ...(existing.sources || e.sources
+        ? { sources: [...new Set([...(existing.sources ?? []), ...(e.sources ?? [])])] }
+        : {}),
+    });
+  });
+  return { ...data, entities: [...merged.values()] };
+};
+
+// Relations identical to an earlier one
+const findDuplicateRelations = (data: GraphData) => {
+  const seen = new Set<string>();
+  return data.relations.filter((r) => {
+    const key = relationKey(r);
+    if (seen.has(key)) return true;
+    seen.add(key);
+    return false;
+  });
+};
+
+const removeDuplicateRelations = (data: GraphData): GraphData => {
+  const duplicates = new Set(findDuplicateRelations(data));
+  return { ...data, relations: data.relations.filter((r) => !duplicates.has(r)) };
+};
+
+const hasDuplicateObservations = (e: Entity) =>
+  new Set(e.observations).size !== e.observations.length;
+
+const dedupeObservations = (data: GraphData): GraphData => ({
+  ...data,
+  entities: data.entities.map((e) =>
+    hasDuplicateObservations(e)
+      ? { ...e, observations: [...new Set(e.observations)] }
+      : e
+  ),
+});
+
+const removeSelfLoops = (data: GraphData): GraphData => ({
+  ...data,
+  relations: data.relations.filter((r) => r.from !== r.to),
+});
+
+const stripBlankObservations = (data: GraphData): GraphData => ({
+  ...data,
+  entities: data.entities.map((e) =>
+    e.observations.some(isBlank)
+      ? { ...e, observations: e.observations.filter((obs) => !isBlank(obs)) }
+      : e
+  ),
+});
+
+// Drop entities matching the predicate, and relations of names that no
+// remaining entity carries. Other entities sharing a dropped entity's name
+// are kept, as are their relations.
+const removeEntitiesWhere = (
+  data: GraphData,
+  predicate: (e: Entity) => boolean
+): GraphData => {
+  const entities = data.entities.filter((e) => !predicate(e));
+  const remaining = new Set(entities.map((e) => e.name));
+  const removed = new Set(
+    data.entities.filter((e) => !remaining.has(e.name)).map((e) => e.name)
+  );
+  return {
+    entities,
+    relations: data.relations.filter(
+      (r) => !removed.has(r.from) && !removed.has(r.to)
+    ),
+  };
+};
+
+// Run every integrity check; categories without issues are included too so
+// the view can show them as passing
+export const lintGraph = (data: GraphData): HealthCategory[] => {
+  const connected = connectedNames(data);
+
+  return [
+    {
+      id: "dangling",
+      title: "Dangling relations",
+      description: "Relations whose source or target entity doesn't exist.",
+      fixLabel: "Remove dangling relations",
+      issues: findDanglingRelations(data).map((r) => ({
+        message: describeRelation(r),
+      })),
+      fix: removeDanglingRelations,
+    },
+    {
+      id: "duplicateEntities",
+      title: "Duplicate entity names",
+      description: "Entity names are the join key for relations and must be unique.",
+      fixLabel: "Merge duplicates into the first entity",
+      issues: findDuplicateEntities(data).map(([name, count]) => ({
+        message: `${name} (${count}×)`,
+        entityName: name,
+      })),
+      fix: mergeDuplicateEntities,
+    },
+    {
+      id: "duplicateRelations",
+      title: "Duplicate relations",
+      description: "Relations with the same source, target and type.",
+      fixLabel: "Remove duplicates",
+      issues: findDuplicateRelations(data).map((r) => ({
+        message: describeRelation(r),
+        entityName: r.from,
+      })),
+      fix: removeDuplicateRelations,
+    },
+    {
+      id: "duplicateObservations",
+      title: "Duplicate observations",
+      description: "Entities listing the same observation more than once.",
+      fixLabel: "Remove repeated observations",
+      issues: data.entities.filter(hasDuplicateObservations).map((e) => ({
+        message: e.name,
+        entityName: e.name,
+      })),
+      fix: dedupeObservations,
+    },
+    {
+      id: "selfLoops",
+      title: "Self-loops",
+      description: "Relations from an entity to itself.",
+      fixLabel: "Remove self-loops",
+      issues: data.relations
+        .filter((r) => r.from === r.to)
+        .map((r) => ({ message: describeRelation(r), entityName: r.from })),
+      fix: removeSelfLoops,
+    },
+    {
+      id: "blankObservations",
+      title: "Blank observations",
+      description: "Observations that are empty or whitespace only.",
+      fixLabel: "Remove blank observations",
+      issues: data.entities
+        .filter((e) => e.observations.some(isBlank))
+        .map((e) => ({ message: e.name, entityName: e.name })),
+      fix: stripBlankObservations,
+    },
+    {
+      id: "noObservations",
+      title: "Entities without observations",
+      // Report only: these entities may be well connected, so deleting
+      // them all at once would lose relations
+      description: "Entities that carry no facts at all. Select one to add observations.",
+      issues: data.entities
+        .filter((e) => e.observations.length === 0)
+        .map((e) => ({ message: e.name, entityName: e.name })),
+    },
+    {
+      id: "isolated",
+      title: "Isolated entities",
+      description: "Entities that take part in no relation.",
+      fixLabel: "Delete isolated entities",
+      issues: data.entities
+        .filter((e) => !connected.has(e.name))
+        .map((e) => ({ message: e.name, entityName: e.name })),
+      fix: (d) => {
+        const linked = connectedNames(d);
+        return removeEntitiesWhere(d, (e) => !linked.has(e.name));
+      },
+    },
+  ];
+};
@@ -0,0 +1,66 @@
+import type { Entity, GraphData, Relation } from "../types";
+
+// Lookup tables over a graph, built once per GraphData so rendering and the
+// details panel don't have to scan every relation for each entity
+export interface GraphIndex {
+  entitiesByName: Map<string, Entity>; // first entity when a name repeats
+  entitiesByType: Map<string, Entity[]>;
+  relationsByType: Map<string, Relation[]>;
+  outgoing: Map<string, Relation[]>; // keyed by source entity name
+  incoming: Map<string, Relation[]>; // keyed by target entity name
+}
+
+const NO_RELATIONS: Relation[] = [];
+
+const push = <T>(map: Map<string, T[]>, key: string, value: T) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+export const buildGraphIndex = (data: GraphData): GraphIndex => {
+  const index: GraphIndex = {
+    entitiesByName: new Map(),
+    entitiesByType: new Map(),
+    relationsByType: new Map(),
+    outgoing: new Map(),
+    incoming: new Map(),
+  };
+  data.entities.forEach((e) => {
+    if (!index.entitiesByName.has(e.name)) index.entitiesByName.set(e.name, e);
+    push(index.entitiesByType, e.entityType, e);
+  });
+  data.relations.forEach((r) => {
+    push(index.relationsByType, r.relationType, r);
+    push(index.outgoing, r.from, r);
+    push(index.incoming, r.to, r);
+  });
+  return index;
+};
+
+export const getOutgoing = (index: GraphIndex, name: string) =>
+  index.outgoing.get(name) ?? NO_RELATIONS;
+
+export const getIncoming = (index: GraphIndex, name: string) =>
+  index.incoming.get(name) ?? NO_RELATIONS;
+
+export const getOutDegree = (index: GraphIndex, name: string) =>
+  getOutgoing(index, name).length;
+
+export const getInDegree = (index: GraphIndex, name: string) =>
+  getIncoming(index, name).length;
+
+// Relations that reference the entity as source or target, self-loops once
+export const getRelationsOf = (index: GraphIndex, name: string) => [
+  ...getOutgoing(index, name),
+  ...getIncoming(index, name).filter((r) => r.from !== name),
+];
+
+// Known entities related to the entity in either direction, each once
+export const getNeighbors = (index: GraphIndex, name: string): string[] => [
+  ...new Set(
+    getRelationsOf(index, name)
+      .map((r) => (r.from === name ? r.to : r.from))
+      .filter((other) => other !== name && index.entitiesByName.has(other))
+  ),
+];
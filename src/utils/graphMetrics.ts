@@ -0,0 +1,325 @@
+import type { GraphData } from "../types";
+import type { GraphIndex } from "./graphIndex";
+import { getNeighbors, getOutgoing } from "./graphIndex";
+
+// PageRank over the relations between known entities. Entities without
+// outgoing relations spread their rank evenly over the whole graph.
+export const computePageRank = (
+  index: GraphIndex,
+  damping = 0.85,
+  iterations = 50
+): Map<string, number> => {
+  const names = [...index.entitiesByName.keys()];
+  const n = names.length;
+  const rank = new Map<string, number>();
+  if (n === 0) return rank;
+
+  const targets = new Map(
+    names.map((name) => [
+      name,
+      getOutgoing(index, name)
+        .map((r) => r.to)
+        .filter((to) => index.entitiesByName.has(to)),
+    ])
+  );
+  names.forEach((name) => rank.set(name, 1 / n));
+
+  for (let i = 0; i < iterations; i++) {
+    const next = new Map(names.map((name) => [name, (1 - damping) / n]));
+    let danglingRank = 0;
+    names.forEach((name) => {
+      const out = targets.get(name);
+      const share = rank.get(name);
+      if (out.length === 0) {
+        danglingRank += share;
+        return;
+      }
+      out.forEach((to) => next.set(to, next.get(to) + (damping * share) / out.length));
+    });
+    names.forEach((name) => next.set(name, next.get(name) + (damping * danglingRank) / n));
+    rank.clear();
+    next.forEach((value, name) => rank.set(name, value));
+  }
+  return rank;
+};
+
+// Entities without relations are left out of the structural metrics below
+// unless noted; all of them treat relations as undirected.
+const neighborSets = (index: GraphIndex) =>
+  new Map(
+    [...index.entitiesByName.keys()].map((name) => [
+      name,
+      new Set(getNeighbors(index, name)),
+    ])
+  );
+
+// Id of each entity's group, numbering the groups from the largest down
+const numberGroupsBySize = (groups: string[][]) => {
+  const ids = new Map<string, number>();
+  [...groups]
+    .sort((a, b) => b.length - a.length)
+    .forEach((group, id) => group.forEach((name) => ids.set(name, id)));
+  return ids;
+};
+
+// Connected components, numbered from the largest down
+export const computeComponents = (index: GraphIndex): Map<string, number> => {
+  const groups: string[][] = [];
+  const seen = new Set<string>();
+  index.entitiesByName.forEach((_, start) => {
+    if (seen.has(start)) return;
+    seen.add(start);
+    const group = [start];
+    for (let i = 0; i < group.length; i++) {
+      getNeighbors(index, group[i]).forEach((neighbor) => {
+        if (seen.has(neighbor)) return;
+        seen.add(neighbor);
+        group.push(neighbor);
+      });
+    }
+    groups.push(group);
+  });
+  return numberGroupsBySize(groups);
+};
+
+// Betweenness centrality (Brandes), normalized to 0..1 by the number of
+// pairs of other entities. Works on entity positions and typed arrays, as
+// it visits every relation once per entity.
+export const computeBetweenness = (index: GraphIndex): Map<string, number> => {
+  const names = [...index.entitiesByName.keys()];
+  const n = names.length;
+  const position = new Map(names.map((name, i) => [name, i]));
+  const neighbors = names.map((name) =>
+    getNeighbors(index, name).map((neighbor) => position.get(neighbor))
+  );
+
+  const centrality = new Float64Array(n);
+  const paths = new Float64Array(n);
+  const distance = new Int32Array(n);
+  const dependency = new Float64Array(n);
+  const order = new Int32Array(n);
+  for (let source = 0; source < n; source++) {
+    paths.fill(0);
+    distance.fill(-1);
+    dependency.fill(0);
+    paths[source] = 1;
+    distance[source] = 0;
+    order[0] = source;
+    let length = 1;
+    for (let i = 0; i < length; i++) {
+      const current = order[i];
+      neighbors[current].forEach((next) => {
+        if (distance[next] < 0) {
+          distance[next] = distance[current] + 1;
+          order[length++] = next;
+        }
+        if (distance[next] === distance[current] + 1) paths[next] += paths[current];
+      });
+    }
+    // Entities in order of decreasing distance; predecessors are the
+    // neighbors one step closer to the source
+    for (let i = length - 1; i > 0; i--) {
+      const current = order[i];
+      const share = (1 + dependency[current]) / paths[current];
+      neighbors[current].forEach((previous) => {
+        if (distance[previous] === distance[current] - 1) {
+          dependency[previous] += paths[previous] * share;
+        }
+      });
+      centrality[current] += dependency[current];
+    }
+  }
+
+  // Every pair was counted from both ends
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0;
+  return new Map(names.map((name, i) => [name, centrality[i] * scale]));
+};
+
+// Local clustering coefficient: how many of an entity's neighbors are
+// related to each other, from 0 to 1. Entities with fewer than two
+// neighbors get 0.
+export const computeClustering = (index: GraphIndex): Map<string, number> => {
+  const neighbors = neighborSets(index);
+  const clustering = new Map<string, number>();
+  neighbors.forEach((own, name) => {
+    const list = [...own];
+    if (list.length < 2) {
+      clustering.set(name, 0);
+      return;
+    }
+    let links = 0;
+    list.forEach((a, i) => {
+      for (let j = i + 1; j < list.length; j++) {
+        if (neighbors.get(a).has(list[j])) links++;
+      }
+    });
+    clustering.set(name, (2 * links) / (list.length * (list.length - 1)));
+  });
+  return clustering;
+};
+
+export interface Communities {
+  community: Map<string, number>; // numbered from the largest down
+  modularity: number;
+}
+
+// Community detection with the Louvain method. Relations are undirected and
+// weighted by how many there are between two entities.
+export const computeCommunities = (index: GraphIndex): Communities => {
+  const names = [...index.entitiesByName.keys()];
+  const position = new Map(names.map((name, i) => [name, i]));
+
+  // Symmetric weights; a self-loop adds twice to its entity, as it counts
+  // twice towards the entity's degree
+  let adjacency: Map<number, number>[] = names.map(() => new Map());
+  const addWeight = (a: number, b: number, weight: number) =>
+    adjacency[a].set(b, (adjacency[a].get(b) ?? 0) + weight);
+  index.outgoing.forEach((relations, from) =>
+    relations.forEach((relation) => {
+      const a = position.get(from);
+      const b = position.get(relation.to);
+      if (a === undefined || b === undefined) return;
+      addWeight(a, b, 1);
+      addWeight(b, a, 1);
+    })
+  );
+  const original = adjacency;
+  const totalWeight = adjacency.reduce(
+    (sum, weights) => sum + [...weights.values()].reduce((a, b) => a + b, 0),
+    0
+  );
+
+  // Community of every entity, updated as the graph is aggregated
+  const membership = names.map((_, i) => i);
+  if (totalWeight > 0) {
+    for (let level = 0; level < 20; level++) {
+      const n = adjacency.length;
+      const degree = adjacency.map((weights) =>
+        [...weights.values()].reduce((a, b) => a + b, 0)
+      );
+      const community = adjacency.map((_, i) => i);
+      const total = [...degree];
+
+      let improved = false;
+      for (let pass = 0; pass < 50; pass++) {
+        let moved = false;
+        for (let i = 0; i < n; i++) {
+          const links = new Map<number, number>();
+          adjacency[i].forEach((weight, j) => {
+            if (j !== i) links.set(community[j], (links.get(community[j]) ?? 0) + weight);
+          });
+          const current = community[i];
+          total[current] -= degree[i];
+          const gain = (c: number) =>
+            (links.get(c) ?? 0) - (total[c] * degree[i]) / totalWeight;
+          let best = current;
+          let bestGain = gain(current);
+          links.forEach((_, c) => {
+            const candidate = gain(c);
+            if (candidate > bestGain + 1e-12) {
+              best = c;
+              bestGain = candidate;
+            }
+          });
+          total[best] += degree[i];
+          if (best !== current) {
+            community[i] = best;
+            moved = true;
+            improved = true;
+          }
+        }
+        if (!moved) break;
+      }
+      if (!improved) break;
+
+      // Merge each community into a single node and start over
+      const renumbered = new Map<number, number>();
+      community.forEach((c) => {
+        if (!renumbered.has(c)) renumbered.set(c, renumbered.size);
+      });
+      const aggregated: Map<number, number>[] = [...renumbered.keys()].map(() => new Map());
+      adjacency.forEach((weights, i) => {
+        const a = renumbered.get(community[i]);
+        weights.forEach((weight, j) => {
+          const b = renumbered.get(community[j]);
+          aggregated[a].set(b, (aggregated[a].get(b) ?? 0) + weight);
+        });
+      });
+      membership.forEach((node, i) => {
+        membership[i] = renumbered.get(community[node]);
+      });
+      adjacency = aggregated;
+    }
+  }
+
+  // Modularity of the final split, on the original graph
+  let modularity = 0;
+  if (totalWeight > 0) {
+    const inside = new Map<number, number>();
+    const total = new Map<number, number>();
+    original.forEach((weights, i) => {
+      const c = membership[i];
+      weights.forEach((weight, j) => {
+        total.set(c, (total.get(c) ?? 0) + weight);
+        if (membership[j] === c) inside.set(c, (inside.get(c) ?? 0) + weight);
+      });
+    });
+    total.forEach((sum, c) => {
+      modularity += (inside.get(c) ?? 0) / totalWeight - (sum / totalWeight) ** 2;
+    });
+  }
+
+  const groups = new Map<number, string[]>();
+  names.forEach((name, i) => {
+    const group = groups.get(membership[i]);
+    if (group) group.push(name);
+    else groups.set(membership[i], [name]);
+  });
+  return { community: numberGroupsBySize([...groups.values()]), modularity };
+};
+
+export type GroupKind = "component" | "community";
+
+// Restricts the view to one connected component or community
+export interface GroupFilter {
+  kind: GroupKind;
+  id: number;
+}
+
+export interface GraphAnalytics {
+  pageRank: Map<string, number>;
+  betweenness: Map<string, number>;
+  clustering: Map<string, number>;
+  component: Map<string, number>;
+  communities: Communities;
+}
+
+export const computeGraphAnalytics = (index: GraphIndex): GraphAnalytics => ({
+  pageRank: computePageRank(index),
+  betweenness: computeBetweenness(index),
+  clustering: computeClustering(index),
+  component: computeComponents(index),
+  communities: computeCommunities(index),
+});
+
+// Message sent to the analytics worker; it answers with the GraphAnalytics
+export type AnalyticsRequest = { data: GraphData };
+
+// Compute the analytics in a Web Worker, as betweenness and community
+// detection take seconds on large graphs. The returned function abandons
+// the computation.
+export const startGraphAnalytics = (
+  data: GraphData,
+  onDone: (analytics: GraphAnalytics) => void
+): (() => void) => {
+  const worker = new Worker(new URL("./graphAnalytics.worker.ts", import.meta.url), {
+    type: "module",
+  });
+  worker.onmessage = (event: MessageEvent<GraphAnalytics>) => {
+    worker.terminate();
+    onDone(event.data);
+  };
+  const request: AnalyticsRequest = { data };
+  worker.postMessage(request);
+  return () => worker.terminate();
+};
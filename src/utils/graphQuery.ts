@@ -0,0 +1,412 @@
+import type { Entity } from "../types";
+import {
+  getInDegree,
+  getIncoming,
+  getOutDegree,
+  getOutgoing,
+  type GraphIndex,
+} from "./graphIndex";
+
+// Query language for the search bar. Examples:
+//   alice                        name, type or an observation contains "alice"
+//   type:Person rel:works_at     entities of type Person with a works_at relation
+//   obs:"prefers TypeScript"     an observation contains the phrase
+//   name:/^proj-\d+$/i           regular expression
+//   degree>3 -name:test          more than 3 relations, name doesn't contain "test"
+//   (type:Person OR type:Team) AND NOT source:old.json
+// Terms next to each other must all match; AND, OR and NOT (upper case),
+// "-" and parentheses combine them.
+
+export const textFields = ["name", "type", "obs", "rel", "source"] as const;
+export const numericFields = ["degree", "in", "out", "obs"] as const;
+type TextField = (typeof textFields)[number];
+type NumericField = (typeof numericFields)[number];
+type Comparison = ">" | ">=" | "<" | "<=" | "=";
+
+// Which parts of an entity a text value is matched against; bare terms
+// search names, types and observations
+export type MatchField = TextField | "any";
+
+export type QueryNode =
+  | { kind: "and" | "or"; items: QueryNode[] }
+  | { kind: "not"; item: QueryNode }
+  | { kind: "text"; field: MatchField; match: (text: string) => TextRange | null }
+  | { kind: "compare"; field: NumericField; op: Comparison; value: number };
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// A piece of an entity that a query term matched, for highlighting
+export interface QueryMatch extends TextRange {
+  field: TextField;
+  text: string;
+}
+
+export interface SearchResult {
+  entity: Entity;
+  matches: QueryMatch[];
+}
+
+export interface QueryError {
+  message: string;
+  position: number; // 1-based column in the query
+}
+
+export type QueryParseResult = { query: QueryNode | null } | { error: QueryError };
+
+type Token =
+  | { kind: "(" | ")" | "not" | "and" | "or"; position: number }
+  | { kind: "field"; name: string; op: ":" | Comparison; position: number }
+  | { kind: "word" | "string"; text: string; position: number }
+  | { kind: "regex"; source: string; flags: string; position: number };
+
+class QuerySyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+  }
+}
+
+const knownFields = new Set<string>([...textFields, ...numericFields]);
+const fieldList = [...knownFields].join(", ");
+
+// A "-" right after a comparison, as in degree>-1, is the sign of the number
+const isSignedNumber = (tokens: Token[], input: string, i: number) => {
+  const previous = tokens[tokens.length - 1];
+  return (
+    previous?.kind === "field" &&
+    previous.op !== ":" &&
+    previous.position + previous.name.length + previous.op.length === i + 1 &&
+    /[\d.]/.test(input[i + 1])
+  );
+};
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < input.length) {
+    const char = input[i];
+    const position = i + 1;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === "(" || char === ")") {
+      tokens.push({ kind: char, position });
+      i++;
+    } else if (
+      char === "-" &&
+      i + 1 < input.length &&
+      !/\s/.test(input[i + 1]) &&
+      !isSignedNumber(tokens, input, i)
+    ) {
+      tokens.push({ kind: "not", position });
+      i++;
+    } else if (char === '"') {
+      let text = "";
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && i + 1 < input.length) i++;
+        text += input[i++];
+      }
+      if (i >= input.length) {
+        throw new QuerySyntaxError("Missing closing quote", position);
+      }
+      i++;
+      tokens.push({ kind: "string", text, position });
+    } else if (char === "/") {
+      let source = "";
+      i++;
+      while (i < input.length && input[i] !== "/") {
+        if (input[i] === "\\" && i + 1 < input.length) source += input[i++];
+        source += input[i++];
+      }
+      if (i >= input.length) {
+        throw new QuerySyntaxError("Missing closing / of the regular expression", position);
+      }
+      i++;
+      const flags = /^[a-z]*/.exec(input.slice(i))[0];
+      i += flags.length;
+      tokens.push({ kind: "regex", source, flags, position });
+    } else {
+      // Only known fields; anything else with a colon, like a URL, is a word
+      const field = /^([A-Za-z]+)(:|>=|<=|>|<|=)/.exec(input.slice(i));
+      if (field && knownFields.has(field[1].toLowerCase())) {
+        tokens.push({
+          kind: "field",
+          name: field[1].toLowerCase(),
+          op: field[2] as ":" | Comparison,
+          position,
+        });
+        i += field[0].length;
+        continue;
+      }
+      const word = /^[^\s()"]+/.exec(input.slice(i))[0];
+      i += word.length;
+      if (word === "AND" || word === "OR" || word === "NOT") {
+        tokens.push({ kind: word.toLowerCase() as "and" | "or" | "not", position });
+      } else {
+        tokens.push({ kind: "word", text: word, position });
+      }
+    }
+  }
+  return tokens;
+};
+
+const includesIgnoringCase = (needle: string) => {
+  const lower = needle.toLowerCase();
+  return (text: string): TextRange | null => {
+    const start = text.toLowerCase().indexOf(lower);
+    return start === -1 ? null : { start, end: start + lower.length };
+  };
+};
+
+const equalsIgnoringCase = (needle: string) => {
+  const lower = needle.toLowerCase();
+  return (text: string): TextRange | null =>
+    text.toLowerCase() === lower ? { start: 0, end: text.length } : null;
+};
+
+const matchingRegex = (regex: RegExp) => (text: string): TextRange | null => {
+  const found = regex.exec(text);
+  return found ? { start: found.index, end: found.index + found[0].length } : null;
+};
+
+// Recursive descent over the tokens:
+//   or   := and (OR and)*
+//   and  := not (AND? not)*
+//   not  := (NOT | -) not | atom
+//   atom := "(" or ")" | field value | value
+const parseTokens = (tokens: Token[], inputLength: number): QueryNode => {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const endPosition = inputLength + 1;
+
+  const parseValue = (field: MatchField, after: Token | null) => {
+    const token = peek();
+    if (!token || (token.kind !== "word" && token.kind !== "string" && token.kind !== "regex")) {
+      throw new QuerySyntaxError(
+        after && after.kind === "field"
+          ? `Expected a value after "${after.name}${after.op}"`
+          : "Expected a search term",
+        token?.position ?? endPosition
+      );
+    }
+    pos++;
+    if (token.kind === "regex") {
+      try {
+        // Global and sticky regexes would carry state from one test to the next
+        const regex = new RegExp(token.source, token.flags.replace(/[gy]/g, ""));
+        return { kind: "text" as const, field, match: matchingRegex(regex) };
+      } catch (error) {
+        throw new QuerySyntaxError(error.message, token.position);
+      }
+    }
+    // Types and relation types match whole names, quoted or not; other
+    // fields match substrings
+    const exact = field === "type" || field === "rel";
+    return {
+      kind: "text" as const,
+      field,
+      match: exact ? equalsIgnoringCase(token.text) : includesIgnoringCase(token.text),
+    };
+  };
+
+  const parseAtom = (): QueryNode => {
+    const token = peek();
+    if (!token) throw new QuerySyntaxError("Expected a search term", endPosition);
+    if (token.kind === "(") {
+      pos++;
+      const inner = parseOr();
+      if (peek()?.kind !== ")") {
+        throw new QuerySyntaxError("Missing closing parenthesis", token.position);
+      }
+      pos++;
+      return inner;
+    }
+    if (token.kind === "field") {
+      pos++;
+      if (token.op === ":") {
+        if (!(textFields as readonly string[]).includes(token.name)) {
+          throw new QuerySyntaxError(
+            `Unknown field "${token.name}". Fields: ${fieldList}`,
+            token.position
+          );
+        }
+        return parseValue(token.name as TextField, token);
+      }
+      if (!(numericFields as readonly string[]).includes(token.name)) {
+        throw new QuerySyntaxError(
+          `"${token.op}" only works with ${numericFields.join(", ")}`,
+          token.position
+        );
+      }
+      const value = peek();
+      const number = value?.kind === "word" ? Number(value.text) : NaN;
+      if (!Number.isFinite(number)) {
+        throw new QuerySyntaxError(
+          `Expected a number after "${token.name}${token.op}"`,
+          value?.position ?? endPosition
+        );
+      }
+      pos++;
+      return { kind: "compare", field: token.name as NumericField, op: token.op, value: number };
+    }
+    if (token.kind === ")" || token.kind === "and" || token.kind === "or") {
+      throw new QuerySyntaxError(
+        `Unexpected "${token.kind === ")" ? ")" : token.kind.toUpperCase()}"`,
+        token.position
+      );
+    }
+    return parseValue("any", null);
+  };
+
+  const parseNot = (): QueryNode => {
+    if (peek()?.kind === "not") {
+      pos++;
+      return { kind: "not", item: parseNot() };
+    }
+    return parseAtom();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const items = [parseNot()];
+    while (peek() && peek().kind !== "or" && peek().kind !== ")") {
+      if (peek().kind === "and") pos++;
+      items.push(parseNot());
+    }
+    return items.length === 1 ? items[0] : { kind: "and", items };
+  };
+
+  const parseOr = (): QueryNode => {
+    const items = [parseAnd()];
+    while (peek()?.kind === "or") {
+      pos++;
+      items.push(parseAnd());
+    }
+    return items.length === 1 ? items[0] : { kind: "or", items };
+  };
+
+  const query = parseOr();
+  if (pos < tokens.length) {
+    throw new QuerySyntaxError(`Unexpected ")"`, tokens[pos].position);
+  }
+  return query;
+};
+
+// Parse a query; an empty query matches everything and yields null
+export const parseQuery = (input: string): QueryParseResult => {
+  try {
+    const tokens = tokenize(input);
+    return { query: tokens.length === 0 ? null : parseTokens(tokens, input.length) };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { error: { message: error.message, position: error.position } };
+    }
+    throw error;
+  }
+};
+
+// Text of an entity that a field is matched against, with the field each
+// piece comes from
+const fieldTexts = (
+  field: MatchField,
+  entity: Entity,
+  index: GraphIndex
+): { field: TextField; text: string }[] => {
+  const texts = (field: TextField, values: string[]) =>
+    values.map((text) => ({ field, text }));
+  switch (field) {
+    case "name":
+      return texts("name", [entity.name]);
+    case "type":
+      return texts("type", [entity.entityType]);
+    case "obs":
+      return texts("obs", entity.observations);
+    case "rel":
+      return texts("rel", [
+        ...new Set(
+          [...getOutgoing(index, entity.name), ...getIncoming(index, entity.name)].map(
+            (r) => r.relationType
+          )
+        ),
+      ]);
+    case "source":
+      return texts("source", entity.sources ?? []);
+    case "any":
+      return [
+        ...fieldTexts("name", entity, index),
+        ...fieldTexts("type", entity, index),
+        ...fieldTexts("obs", entity, index),
+      ];
+  }
+};
+
+const numericValue = (field: NumericField, entity: Entity, index: GraphIndex) => {
+  switch (field) {
+    case "degree":
+      return getInDegree(index, entity.name) + getOutDegree(index, entity.name);
+    case "in":
+      return getInDegree(index, entity.name);
+    case "out":
+      return getOutDegree(index, entity.name);
+    case "obs":
+      return entity.observations.length;
+  }
+};
+
+const compare = (a: number, op: Comparison, b: number) => {
+  switch (op) {
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    case "<=":
+      return a <= b;
+    case "=":
+      return a === b;
+  }
+};
+
+export const matchesQuery = (
+  query: QueryNode,
+  entity: Entity,
+  index: GraphIndex
+): boolean => {
+  switch (query.kind) {
+    case "and":
+      return query.items.every((item) => matchesQuery(item, entity, index));
+    case "or":
+      return query.items.some((item) => matchesQuery(item, entity, index));
+    case "not":
+      return !matchesQuery(query.item, entity, index);
+    case "text":
+      return fieldTexts(query.field, entity, index).some(
+        ({ text }) => query.match(text) !== null
+      );
+    case "compare":
+      return compare(numericValue(query.field, entity, index), query.op, query.value);
+  }
+};
+
+// The text that the query's terms matched in an entity, one match per piece
+// of text. Terms under NOT and numeric comparisons don't point at any text.
+export const findQueryMatches = (
+  query: QueryNode,
+  entity: Entity,
+  index: GraphIndex
+): QueryMatch[] => {
+  const matches = new Map<string, QueryMatch>();
+  const collect = (node: QueryNode) => {
+    if (node.kind === "and" || node.kind === "or") node.items.forEach(collect);
+    if (node.kind !== "text") return;
+    fieldTexts(node.field, entity, index).forEach(({ field, text }) => {
+      const key = JSON.stringify([field, text]);
+      const range = matches.has(key) ? null : node.match(text);
+      if (range) matches.set(key, { field, text, ...range });
+    });
+  };
+  collect(query);
+  return [...matches.values()];
+};
@@ -0,0 +1,208 @@
+import * as d3 from "d3";
+import type { Link, Node } from "../types";
+
+export type LayoutMode = "force" | "clustered" | "hierarchical" | "radial" | "circular";
+
+export const layoutModeLabels: Record<LayoutMode, string> = {
+  force: "Force",
+  clustered: "Force, clustered by type",
+  hierarchical: "Hierarchy",
+  radial: "Radial around selection",
+  circular: "Circle grouped by type",
+};
+
+// In a hierarchy a relation's source sits above its target ("down"), or
+// below it ("up") for relations like is_part_of that point at the parent
+export type HierarchyDirection = "down" | "up";
+
+export type Point = { x: number; y: number };
+
+const LEVEL_GAP = 120;
+const SIBLING_GAP = 80;
+const RING_GAP = 150;
+const ARC_SPACING = 40; // minimum distance between nodes on a ring or circle
+
+const push = <K, V>(map: Map<K, V[]>, key: K, value: V) => {
+  const list = map.get(key);
+  if (list) list.push(value);
+  else map.set(key, [value]);
+};
+
+// Breadth-first levels from the given roots; returns the nodes of each level
+const bfsLevels = (
+  roots: Node[],
+  neighbors: Map<Node, Node[]>,
+  visited: Set<Node>
+) => {
+  const levels: Node[][] = [];
+  let current = roots.filter((node) => !visited.has(node));
+  current.forEach((node) => visited.add(node));
+  while (current.length > 0) {
+    levels.push(current);
+    const next: Node[] = [];
+    current.forEach((node) =>
+      neighbors.get(node)?.forEach((neighbor) => {
+        if (visited.has(neighbor)) return;
+        visited.add(neighbor);
+        next.push(neighbor);
+      })
+    );
+    current = next;
+  }
+  return levels;
+};
+
+// Layered tree: entities without a parent on the top row, each child one row
+// below the first parent that reaches it. Cycles without a root start from
+// their first unplaced entity.
+const hierarchicalLayout = (
+  nodes: Node[],
+  links: Link[],
+  center: Point,
+  direction: HierarchyDirection
+) => {
+  const children = new Map<Node, Node[]>();
+  const hasParent = new Set<Node>();
+  links.forEach((link) => {
+    const [parent, child] =
+      direction === "down" ? [link.source, link.target] : [link.target, link.source];
+    if (parent === child) return;
+    push(children, parent, child);
+    hasParent.add(child);
+  });
+
+  const visited = new Set<Node>();
+  const levels = bfsLevels(
+    nodes.filter((node) => !hasParent.has(node)),
+    children,
+    visited
+  );
+  nodes.forEach((node) => {
+    if (visited.has(node)) return;
+    bfsLevels([node], children, visited).forEach((level, depth) => {
+      if (!levels[depth]) levels[depth] = [];
+      levels[depth].push(...level);
+    });
+  });
+
+  const positions = new Map<Node, Point>();
+  levels.forEach((level, depth) =>
+    level.forEach((node, i) =>
+      positions.set(node, {
+        x: center.x + (i - (level.length - 1) / 2) * SIBLING_GAP,
+        y: center.y + (depth - (levels.length - 1) / 2) * LEVEL_GAP,
+      })
+    )
+  );
+  return positions;
+};
+
+// Concentric rings by hop distance from the focus entity, ignoring direction.
+// Entities that can't be reached go on an outer ring.
+const radialLayout = (nodes: Node[], links: Link[], focus: Node) => {
+  const neighbors = new Map<Node, Node[]>();
+  links.forEach((link) => {
+    push(neighbors, link.source, link.target);
+    push(neighbors, link.target, link.source);
+  });
+  const visited = new Set<Node>();
+  const rings = bfsLevels([focus], neighbors, visited);
+  const unreached = nodes.filter((node) => !visited.has(node));
+  if (unreached.length > 0) rings.push(unreached);
+
+  const positions = new Map<Node, Point>();
+  let radius = 0;
+  rings.forEach((ring, depth) => {
+    if (depth > 0) {
+      radius = Math.max(radius + RING_GAP, (ring.length * ARC_SPACING) / (2 * Math.PI));
+    }
+    ring.forEach((node, i) => {
+      const angle = (2 * Math.PI * i) / ring.length - Math.PI / 2;
+      positions.set(node, {
+        x: focus.x + radius * Math.cos(angle),
+        y: focus.y + radius * Math.sin(angle),
+      });
+    });
+  });
+  return positions;
+};
+
+// One circle with the entities of each type next to each other and a gap
+// between the types
+const circularLayout = (nodes: Node[], center: Point) => {
+  const sorted = [...nodes].sort(
+    (a, b) =>
+      a.entityType.localeCompare(b.entityType) || a.name.localeCompare(b.name)
+  );
+  const typeCount = new Set(nodes.map((node) => node.entityType)).size;
+  const gap = typeCount > 1 ? 2 : 0; // empty slots between two types
+  const slots = sorted.length + typeCount * gap;
+  const radius = Math.max(RING_GAP, (slots * ARC_SPACING) / (2 * Math.PI));
+
+  const positions = new Map<Node, Point>();
+  let slot = 0;
+  sorted.forEach((node, i) => {
+    if (i > 0 && node.entityType !== sorted[i - 1].entityType) slot += gap;
+    const angle = (2 * Math.PI * slot) / slots - Math.PI / 2;
+    positions.set(node, {
+      x: center.x + radius * Math.cos(angle),
+      y: center.y + radius * Math.sin(angle),
+    });
+    slot++;
+  });
+  return positions;
+};
+
+// Target positions for the layouts that aren't simulated. The radial layout
+// keeps its focus entity in place, falling back to the best connected one.
+export const computeStaticLayout = (
+  mode: Exclude<LayoutMode, "force" | "clustered">,
+  nodes: Node[],
+  links: Link[],
+  options: { center: Point; focus: Node | null; direction: HierarchyDirection }
+): Map<Node, Point> => {
+  switch (mode) {
+    case "hierarchical":
+      return hierarchicalLayout(nodes, links, options.center, options.direction);
+    case "radial": {
+      const focus =
+        options.focus ?? d3.greatest(nodes, (node) => node.degree ?? 0);
+      if (!focus) return new Map();
+      if (focus.x === undefined || focus.y === undefined) {
+        focus.x = options.center.x;
+        focus.y = options.center.y;
+      }
+      return radialLayout(nodes, links, focus);
+    }
+    case "circular":
+      return circularLayout(nodes, options.center);
+  }
+};
+
+// Move nodes from their current to their target positions, calling onFrame
+// after each step. Nodes that haven't been placed yet start at their target.
+export const animatePositions = (
+  nodes: Node[],
+  targets: Map<Node, Point>,
+  onFrame: () => void,
+  duration = 750
+) => {
+  const moves = nodes
+    .filter((node) => targets.has(node))
+    .map((node) => {
+      const to = targets.get(node);
+      const from =
+        node.x === undefined || node.y === undefined ? to : { x: node.x, y: node.y };
+      return { node, from, to };
+    });
+  const timer = d3.timer((elapsed) => {
+    const t = d3.easeCubicInOut(Math.min(1, elapsed / duration));
+    moves.forEach(({ node, from, to }) => {
+      node.x = from.x + (to.x - from.x) * t;
+      node.y = from.y + (to.y - from.y) * t;
+    });
+    onFrame();
+    if (t >= 1) timer.stop();
+  });
+  return timer;
+};
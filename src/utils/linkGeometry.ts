@@ -0,0 +1,157 @@
+import type { Link, Node } from "../types";
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// The line, quadratic curve or cubic curve a link is drawn along, as points
+// so the canvas renderer can draw it without building a path string
+export type LinkCurve =
+  | { kind: "line"; start: Point; end: Point }
+  | { kind: "quadratic"; start: Point; control: Point; end: Point }
+  | { kind: "cubic"; start: Point; control1: Point; control2: Point; end: Point };
+
+// Where a link is drawn: its curve, the point and direction it arrives at
+// the target (for arrowheads), and where its label goes
+export interface LinkGeometry {
+  curve: LinkCurve;
+  end: Point;
+  endAngle: number; // radians
+  label: { x: number; y: number; angle: number }; // angle in radians, kept upright
+}
+
+const CURVE_SPACING = 40; // distance between parallel links at their middle
+const LOOP_SIZE = 30;
+
+// Offset of each link from the straight line between its two entities.
+// Links between the same pair fan out around the straight line; since the
+// offset is measured in the link's own direction, A→B and B→A bend apart.
+// For self-loops the value is the loop's index on its entity instead.
+export const computeLinkOffsets = (links: Link[]): Map<Link, number> => {
+  const groups = new Map<string, Link[]>();
+  links.forEach((link) => {
+    const [a, b] = [link.source.id, link.target.id].sort();
+    const key = JSON.stringify([a, b]);
+    const group = groups.get(key);
+    if (group) group.push(link);
+    else groups.set(key, [link]);
+  });
+
+  const offsets = new Map<Link, number>();
+  groups.forEach((group) => {
+    if (group[0].source === group[0].target) {
+      group.forEach((link, i) => offsets.set(link, i));
+      return;
+    }
+    // Offsets are laid out relative to the first link's direction
+    const first = group[0].source;
+    group.forEach((link, i) => {
+      const offset = (i - (group.length - 1) / 2) * CURVE_SPACING;
+      offsets.set(link, link.source === first ? offset : -offset);
+    });
+  });
+  return offsets;
+};
+
+// Rotate label angles that would read upside down
+const upright = (angle: number) =>
+  angle > Math.PI / 2 || angle < -Math.PI / 2 ? angle + Math.PI : angle;
+
+const hasPosition = (node: Node) => node.x !== undefined && node.y !== undefined;
+
+const selfLoopGeometry = (node: Node, index: number, radius: number): LinkGeometry => {
+  // Successive loops on the same entity go around it clockwise from the top
+  const angle = -Math.PI / 2 + index * (Math.PI / 3);
+  const size = radius + LOOP_SIZE;
+  const point = (a: number, distance: number) => ({
+    x: node.x + Math.cos(a) * distance,
+    y: node.y + Math.sin(a) * distance,
+  });
+  const start = point(angle - 0.35, radius);
+  const end = point(angle + 0.35, radius);
+  const control1 = point(angle - 0.6, size * 1.6);
+  const control2 = point(angle + 0.6, size * 1.6);
+  const apex = point(angle, size * 1.25);
+  return {
+    curve: { kind: "cubic", start, control1, control2, end },
+    end,
+    endAngle: Math.atan2(end.y - control2.y, end.x - control2.x),
+    label: { x: apex.x, y: apex.y, angle: upright(angle + Math.PI / 2) },
+  };
+};
+
+export const linkGeometry = (
+  link: Link,
+  offset: number,
+  radius: (node: Node) => number
+): LinkGeometry | null => {
+  const { source, target } = link;
+  if (!hasPosition(source) || !hasPosition(target)) return null;
+  if (source === target) return selfLoopGeometry(source, offset, radius(source));
+
+  const dx = target.x - source.x;
+  const dy = target.y - source.y;
+  const length = Math.sqrt(dx * dx + dy * dy) || 1;
+
+  if (offset === 0) {
+    const unitX = dx / length;
+    const unitY = dy / length;
+    const start = {
+      x: source.x + unitX * radius(source),
+      y: source.y + unitY * radius(source),
+    };
+    const end = {
+      x: target.x - unitX * radius(target),
+      y: target.y - unitY * radius(target),
+    };
+    return {
+      curve: { kind: "line", start, end },
+      end,
+      endAngle: Math.atan2(dy, dx),
+      // Closer to the target, so labels of links that cross are less likely to overlap
+      label: {
+        x: source.x + dx * 0.7,
+        y: source.y + dy * 0.7,
+        angle: upright(Math.atan2(dy, dx)),
+      },
+    };
+  }
+
+  // Quadratic curve whose middle sits `offset` away from the straight line
+  const control = {
+    x: (source.x + target.x) / 2 - (dy / length) * offset * 2,
+    y: (source.y + target.y) / 2 + (dx / length) * offset * 2,
+  };
+  const towards = (from: Node, r: number) => {
+    const cx = control.x - from.x;
+    const cy = control.y - from.y;
+    const distance = Math.sqrt(cx * cx + cy * cy) || 1;
+    return { x: from.x + (cx / distance) * r, y: from.y + (cy / distance) * r };
+  };
+  const start = towards(source, radius(source));
+  const end = towards(target, radius(target));
+  return {
+    curve: { kind: "quadratic", start, control, end },
+    end,
+    endAngle: Math.atan2(end.y - control.y, end.x - control.x),
+    label: {
+      x: 0.25 * start.x + 0.5 * control.x + 0.25 * end.x,
+      y: 0.25 * start.y + 0.5 * control.y + 0.25 * end.y,
+      angle: upright(Math.atan2(end.y - start.y, end.x - start.x)),
+    },
+  };
+};
+
+// SVG path data for a link curve
+export const curvePath = (curve: LinkCurve) => {
+  const { start, end } = curve;
+  switch (curve.kind) {
+    case "line":
+      return `M${start.x},${start.y}L${end.x},${end.y}`;
+    case "quadratic":
+      return `M${start.x},${start.y}Q${curve.control.x},${curve.control.y} ${end.x},${end.y}`;
+    case "cubic":
+      return `M${start.x},${start.y}C${curve.control1.x},${curve.control1.y} ${curve.control2.x},${curve.control2.y} ${end.x},${end.y}`;
+  }
+};
@@ -0,0 +1,35 @@
+import * as d3 from "d3";
+import { categoricalPalette } from "./nodeStyle";
+
+export interface RelationStyle {
+  color: string;
+  dashed: boolean;
+}
+
+// Styles the user picked for some relation types; the rest use the palette
+export type RelationStyleOverrides = Record<string, Partial<RelationStyle>>;
+
+export const RELATION_STYLE_STORAGE_KEY = "memory-visualizer:relation-styles";
+
+export const DASH_PATTERN = [6, 3];
+
+// A distinct color per relation type, solid unless overridden
+export const buildRelationStyles = (
+  types: string[],
+  overrides: RelationStyleOverrides
+): Map<string, RelationStyle> => {
+  const sorted = [...types].sort();
+  const palette = categoricalPalette(sorted.length, [
+    ...d3.schemeDark2,
+    ...d3.schemePaired,
+  ]);
+  return new Map(
+    sorted.map((type, i) => [
+      type,
+      {
+        color: overrides[type]?.color ?? palette[i],
+        dashed: overrides[type]?.dashed ?? false,
+      },
+    ])
+  );
+};
@@ -0,0 +1,263 @@
+import type { Entity, GraphData, Relation } from "../types";
+
+// Input layouts the parser understands
+export type MemoryFormat = "jsonl" | "graph" | "array";
+
+export const memoryFormatLabels: Record<MemoryFormat, string> = {
+  jsonl: "JSON Lines (memory.json)",
+  graph: "read_graph object {entities, relations}",
+  array: "JSON array of records",
+};
+
+// A record of the input that could not be turned into an entity or relation
+export interface ParseIssue {
+  // 1-based line number for JSON Lines, record number for the other formats
+  line: number;
+  raw: string;
+  reason: string;
+}
+
+export interface ParseReport {
+  format: MemoryFormat;
+  recordCount: number;
+  entityCount: number;
+  relationCount: number;
+  inferredTypeCount: number; // records accepted without a "type" field
+  issues: ParseIssue[];
+}
+
+// Parse report for one loaded file (or the clipboard)
+export interface SourceReport {
+  source: string;
+  report: ParseReport;
+}
+
+export type ParsedRecord =
+  | { kind: "entity"; entity: Entity }
+  | { kind: "relation"; relation: Relation }
+  | { kind: "error"; reason: string };
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim() !== "";
+
+// Guess the record type from its fields when "type" is missing
+const inferRecordType = (record: Record<string, unknown>) => {
+  if ("from" in record || "to" in record || "relationType" in record) {
+    return "relation";
+  }
+  if ("name" in record || "entityType" in record || "observations" in record) {
+    return "entity";
+  }
+  return undefined;
+};
+
+// Validate a single decoded record against the memory server's format.
+// Records without a "type" take `expectedType` (the array they came from)
+// or have it inferred from their fields.
+export const parseRecord = (
+  obj: unknown,
+  expectedType?: "entity" | "relation"
+): ParsedRecord => {
+  if (typeof obj !== "object" || obj === null || Array.isArray(obj)) {
+    return { kind: "error", reason: "Not a JSON object" };
+  }
+  let record = obj as Record<string, unknown>;
+  if (record.type === undefined) {
+    const type = expectedType ?? inferRecordType(record);
+    if (type) record = { ...record, type };
+  }
+  const problems: string[] = [];
+
+  if (record.type === "entity") {
+    if (!isNonEmptyString(record.name)) problems.push('missing "name"');
+    if (!isNonEmptyString(record.entityType))
+      problems.push('missing "entityType"');
+    if (!Array.isArray(record.observations)) {
+      problems.push('missing "observations"');
+    } else if (record.observations.some((obs) => typeof obs !== "string")) {
+      problems.push("non-string observations");
+    }
+    if (problems.length > 0) {
+      return { kind: "error", reason: `Invalid entity: ${problems.join(", ")}` };
+    }
+    return { kind: "entity", entity: record as unknown as Entity };
+  }
+
+  if (record.type === "relation") {
+    if (!isNonEmptyString(record.from)) problems.push('missing "from"');
+    if (!isNonEmptyString(record.to)) problems.push('missing "to"');
+    if (!isNonEmptyString(record.relationType))
+      problems.push('missing "relationType"');
+    if (problems.length > 0) {
+      return {
+        kind: "error",
+        reason: `Invalid relation: ${problems.join(", ")}`,
+      };
+    }
+    return { kind: "relation", relation: record as unknown as Relation };
+  }
+
+  return {
+    kind: "error",
+    reason:
+      record.type === undefined
+        ? 'Missing "type"'
+        : `Unknown type ${JSON.stringify(record.type)}`,
+  };
+};
+
+const invalidJson = (err: unknown): ParsedRecord => ({
+  kind: "error",
+  reason: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+});
+
+// Parse one line of a memory.json file
+export const parseLine = (line: string): ParsedRecord => {
+  let obj: unknown;
+  try {
+    obj = JSON.parse(line);
+  } catch (err) {
+    return invalidJson(err);
+  }
+  return parseRecord(obj);
+};
+
+// Decode content that is a single JSON document; JSON Lines content
+// (several documents) fails here and is parsed line by line instead
+const parseWholeDocument = (content: string): unknown => {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return undefined;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+};
+
+const isGraphObject = (
+  value: unknown
+): value is { entities?: unknown; relations?: unknown } =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  (Array.isArray((value as Record<string, unknown>).entities) ||
+    Array.isArray((value as Record<string, unknown>).relations));
+
+// Parse memory graph content, auto-detecting its layout: the memory.json
+// JSON Lines file, the single {entities, relations} object returned by the
+// read_graph tool, or a JSON array of mixed records. Every rejected record
+// is collected with the reason it was rejected.
+export const parseMemoryJson = (
+  content: string
+): { data: GraphData; report: ParseReport } => {
+  const entities: Entity[] = [];
+  const relations: Relation[] = [];
+  const issues: ParseIssue[] = [];
+  let recordCount = 0;
+  let inferredTypeCount = 0;
+
+  const addRecord = (
+    position: number,
+    raw: string,
+    parsed: ParsedRecord,
+    hadType: boolean
+  ) => {
+    recordCount++;
+    if (parsed.kind === "error") {
+      issues.push({ line: position, raw, reason: parsed.reason });
+      return;
+    }
+    if (!hadType) inferredTypeCount++;
+    if (parsed.kind === "entity") {
+      entities.push(parsed.entity);
+    } else {
+      relations.push(parsed.relation);
+    }
+  };
+
+  const hasType = (value: unknown) =>
+    typeof value === "object" &&
+    value !== null &&
+    (value as Record<string, unknown>).type !== undefined;
+
+  const addObjects = (
+    objects: unknown[],
+    expectedType?: "entity" | "relation"
+  ) => {
+    objects.forEach((obj) => {
+      addRecord(
+        recordCount + 1,
+        JSON.stringify(obj),
+        parseRecord(obj, expectedType),
+        hasType(obj)
+      );
+    });
+  };
+
+  const document = parseWholeDocument(content);
+  let format: MemoryFormat = "jsonl";
+
+  if (isGraphObject(document)) {
+    format = "graph";
+    addObjects(Array.isArray(document.entities) ? document.entities : [], "entity");
+    addObjects(
+      Array.isArray(document.relations) ? document.relations : [],
+      "relation"
+    );
+  } else if (Array.isArray(document)) {
+    format = "array";
+    addObjects(document);
+  } else {
+    content.split("\n").forEach((raw, i) => {
+      if (!raw.trim()) return;
+      let obj: unknown;
+      try {
+        obj = JSON.parse(raw);
+      } catch (err) {
+        addRecord(i + 1, raw.trim(), invalidJson(err), true);
+        return;
+      }
+      addRecord(i + 1, raw.trim(), parseRecord(obj), hasType(obj));
+    });
+  }
+
+  return {
+    data: { entities, relations },
+    report: {
+      format,
+      recordCount,
+      entityCount: entities.length,
+      relationCount: relations.length,
+      inferredTypeCount,
+      issues,
+    },
+  };
+};
+
+// Serialize graph data back into the line-per-object memory.json format.
+// Entities are written before relations (the order the memory server uses
+// when it saves), each keeping the order it has in graphData, so a file
+// that interleaves the two comes back regrouped. Only the fields the server
+// knows about are written, so anything the visualizer attaches to entities
+// or relations never leaks into the file. Every line ends with a newline.
+export const serializeMemoryJson = (data: GraphData): string => {
+  const lines = [
+    ...data.entities.map((entity) =>
+      JSON.stringify({
+        type: "entity",
+        name: entity.name,
+        entityType: entity.entityType,
+        observations: entity.observations,
+      })
+    ),
+    ...data.relations.map((relation) =>
+      JSON.stringify({
+        type: "relation",
+        from: relation.from,
+        to: relation.to,
+        relationType: relation.relationType,
+      })
+    ),
+  ];
+  return lines.map((line) => `${line}\n`).join("");
+};
@@ -0,0 +1,105 @@
+import type { Entity, GraphData } from "../types";
+import { relationKey } from "./graphEdits";
+
+// An entity whose files disagree on its entityType
+export interface TypeConflict {
+  name: string;
+  types: string[];
+}
+
+const union = <T>(a: T[], b: T[]): T[] => [...new Set([...a, ...b])];
+
+// `list` followed by the items of `added` it doesn't have yet. Unlike
+// union, repeats already in `list` stay; removing them is a health fix.
+const appendMissing = <T>(list: T[], added: T[]): T[] => {
+  const present = new Set(list);
+  const missing = added.filter((item) => {
+    if (present.has(item)) return false;
+    present.add(item);
+    return true;
+  });
+  return missing.length > 0 ? [...list, ...missing] : list;
+};
+
+// Tag every entity of a freshly loaded graph with the file it came from
+export const tagSources = (data: GraphData, source: string): GraphData => ({
+  ...data,
+  entities: data.entities.map((e) => ({
+    ...e,
+    sources: union(e.sources ?? [], [source]),
+  })),
+});
+
+// Merge a loaded graph into an existing one. Entities are keyed by name:
+// loaded observations the entity doesn't have yet are appended, sources
+// are unioned, and when the files disagree on
+// entityType the existing type is kept and the entity is reported as a
+// conflict. Duplicate names already in the existing graph are kept as they
+// are, for the health check to report; loaded entities merge into the first
+// of them. Relations already present are skipped.
+export const mergeGraphData = (
+  base: GraphData,
+  incoming: GraphData,
+  source: string
+): { data: GraphData; conflicts: TypeConflict[] } => {
+  const entities: Entity[] = [...base.entities];
+  // Position of the first entity with each name
+  const positions = new Map<string, number>();
+  entities.forEach((e, i) => {
+    if (!positions.has(e.name)) positions.set(e.name, i);
+  });
+  const conflicts = new Map<string, Set<string>>();
+
+  tagSources(incoming, source).entities.forEach((e) => {
+    const position = positions.get(e.name);
+    if (position === undefined) {
+      positions.set(e.name, entities.length);
+      entities.push(e);
+      return;
+    }
+    const existing = entities[position];
+    if (existing.entityType !== e.entityType) {
+      const types =
+        conflicts.get(e.name) ?? new Set<string>([existing.entityType]);
+      types.add(e.entityType);
+      conflicts.set(e.name, types);
+    }
+    entities[position] = {
+      ...existing,
+      observations: appendMissing(existing.observations, e.observations),
+      sources: union(existing.sources ?? [], e.sources ?? []),
+    };
+  });
+
+  const seen = new Set(base.relations.map(relationKey));
+  const relations = [...base.relations];
+  incoming.relations.forEach((r) => {
+    const key = relationKey(r);
+    if (!seen.has(key)) {
+      seen.add(key);
+      relations.push(r);
+    }
+  });
+
+  return {
+    data: { entities, relations },
+    conflicts: [...conflicts].map(([name, types]) => ({
+      name,
+      types: [...types],
+    })),
+  };
+};
+
+// Add newly found conflicts to those already reported, one per entity name
+export const mergeTypeConflicts = (
+  existing: TypeConflict[],
+  added: TypeConflict[]
+): TypeConflict[] => {
+  const types = new Map(existing.map((c) => [c.name, c.types]));
+  added.forEach((c) => types.set(c.name, union(types.get(c.name) ?? [], c.types)));
+  return [...types].map(([name, types]) => ({ name, types }));
+};
+
+// Every source file named in the graph, in first-seen order
+export const getSources = (data: GraphData): string[] =>
+  [...new Set(data.entities.flatMap((e) => e.sources ?? []))];
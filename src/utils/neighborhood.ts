@@ -0,0 +1,42 @@
+import { getNeighbors, type GraphIndex } from "./graphIndex";
+
+export interface Neighborhood {
+  names: Set<string>;
+  // Entities in the neighborhood with neighbors outside of it
+  boundary: Set<string>;
+}
+
+// Entities within `hops` relations of the center, following relations in
+// either direction, plus the neighbors of each expanded entity. Expansions
+// are applied in order, so an entity pulled in by one can be expanded next.
+export const getNeighborhood = (
+  index: GraphIndex,
+  center: string,
+  hops: number,
+  expanded: Iterable<string> = []
+): Neighborhood => {
+  const names = new Set([center]);
+  let frontier = [center];
+  for (let hop = 0; hop < hops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    frontier.forEach((name) =>
+      getNeighbors(index, name).forEach((neighbor) => {
+        if (names.has(neighbor)) return;
+        names.add(neighbor);
+        next.push(neighbor);
+      })
+    );
+    frontier = next;
+  }
+
+  for (const name of expanded) {
+    if (names.has(name)) getNeighbors(index, name).forEach((n) => names.add(n));
+  }
+
+  const boundary = new Set(
+    [...names].filter((name) =>
+      getNeighbors(index, name).some((neighbor) => !names.has(neighbor))
+    )
+  );
+  return { names, boundary };
+};
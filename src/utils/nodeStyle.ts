@@ -0,0 +1,170 @@
+import * as d3 from "d3";
+import { getInDegree, getOutDegree, type GraphIndex } from "./graphIndex";
+import type { GraphAnalytics } from "./graphMetrics";
+
+export type NodeShape = "circle" | "square" | "diamond" | "triangle" | "star" | "cross";
+
+export const nodeShapeSymbols: Record<NodeShape, d3.SymbolType> = {
+  circle: d3.symbolCircle,
+  square: d3.symbolSquare,
+  diamond: d3.symbolDiamond,
+  triangle: d3.symbolTriangle,
+  star: d3.symbolStar,
+  cross: d3.symbolCross,
+};
+
+// Path of a node's shape, centered on the origin, with about the same area
+// as a circle of the given radius
+export const nodeShapePath = (shape: NodeShape, radius: number) =>
+  d3.symbol(nodeShapeSymbols[shape], Math.PI * radius * radius)();
+
+export interface TypeStyle {
+  color: string;
+  shape: NodeShape;
+}
+
+// Styles the user picked for some entity types; the rest use the palette
+export type TypeStyleOverrides = Record<string, Partial<TypeStyle>>;
+
+export const ENTITY_STYLE_STORAGE_KEY = "memory-visualizer:type-styles";
+
+// Style overrides are remembered across files, since the same type names
+// tend to appear in every memory graph
+export const loadStyleOverrides = <T>(key: string): Record<string, Partial<T>> => {
+  try {
+    return JSON.parse(localStorage.getItem(key) ?? "{}") ?? {};
+  } catch {
+    return {};
+  }
+};
+
+export const storeStyleOverrides = <T>(
+  key: string,
+  overrides: Record<string, Partial<T>>
+) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(overrides));
+  } catch {
+    // Storage unavailable; the styles just won't be remembered
+  }
+};
+
+// Distinct hex colors, from the given scheme while it has enough of them
+export const categoricalPalette = (count: number, scheme: readonly string[]) =>
+  count <= scheme.length
+    ? [...scheme]
+    : d3.quantize(
+        (t) => d3.color(d3.interpolateRainbow(t * 0.9)).formatHex(),
+        count
+      );
+
+// A distinct color per entity type. Types are sorted so a type keeps its
+// color when the same graph is loaded again.
+export const buildTypeStyles = (
+  types: string[],
+  overrides: TypeStyleOverrides
+): Map<string, TypeStyle> => {
+  const sorted = [...types].sort();
+  const palette = categoricalPalette(sorted.length, [
+    ...d3.schemeTableau10,
+    ...d3.schemeSet3,
+  ]);
+  return new Map(
+    sorted.map((type, i) => [
+      type,
+      {
+        color: overrides[type]?.color ?? palette[i],
+        shape: overrides[type]?.shape ?? "circle",
+      },
+    ])
+  );
+};
+
+export type SizeMetric =
+  | "degree"
+  | "inDegree"
+  | "observations"
+  | "pageRank"
+  | "betweenness"
+  | "clustering";
+
+export const sizeMetricLabels: Record<SizeMetric, string> = {
+  degree: "Degree",
+  inDegree: "In-degree",
+  observations: "Observation count",
+  pageRank: "Centrality (PageRank)",
+  betweenness: "Betweenness",
+  clustering: "Clustering coefficient",
+};
+
+// Node colors: by entity type, by group (connected component or community)
+// or on a scale by one of the size metrics
+export type ColorMode = "type" | "component" | "community" | SizeMetric;
+
+export const colorModeLabels: Record<ColorMode, string> = {
+  type: "Entity type",
+  component: "Connected component",
+  community: "Community",
+  ...sizeMetricLabels,
+};
+
+export const isGroupColorMode = (mode: ColorMode): mode is "component" | "community" =>
+  mode === "component" || mode === "community";
+
+// Metrics taken from the graph analytics rather than counted per entity
+export const isAnalyticsMetric = (
+  metric: SizeMetric
+): metric is "pageRank" | "betweenness" | "clustering" =>
+  metric === "pageRank" || metric === "betweenness" || metric === "clustering";
+
+export const colorModeNeedsAnalytics = (mode: ColorMode) =>
+  mode !== "type" && (isGroupColorMode(mode) || isAnalyticsMetric(mode));
+
+// Low to high metric values
+export const METRIC_COLOR_INTERPOLATOR = d3.interpolateViridis;
+
+// Value of the chosen metric for every entity, used to scale node sizes.
+// Analytics metrics are read from `analytics`, which callers compute once.
+export const computeSizeValues = (
+  metric: SizeMetric,
+  index: GraphIndex,
+  analytics: GraphAnalytics | null
+): Map<string, number> => {
+  if (isAnalyticsMetric(metric)) return analytics?.[metric] ?? new Map();
+  return new Map(
+    [...index.entitiesByName.values()].map((entity) => [
+      entity.name,
+      metric === "degree"
+        ? getInDegree(index, entity.name) + getOutDegree(index, entity.name)
+        : metric === "inDegree"
+          ? getInDegree(index, entity.name)
+          : entity.observations.length,
+    ])
+  );
+};
+
+// Node colors for every mode but "type", which uses the type styles
+export const computeNodeColors = (
+  mode: ColorMode,
+  index: GraphIndex,
+  analytics: GraphAnalytics | null
+): Map<string, string> | null => {
+  if (mode === "type") return null;
+  const names = [...index.entitiesByName.keys()];
+  if (isGroupColorMode(mode)) {
+    const groups =
+      (mode === "component" ? analytics?.component : analytics?.communities.community) ??
+      new Map<string, number>();
+    const palette = categoricalPalette((d3.max(groups.values()) ?? 0) + 1, [
+      ...d3.schemeTableau10,
+      ...d3.schemeSet3,
+    ]);
+    return new Map(names.map((name) => [name, palette[groups.get(name) ?? 0]]));
+  }
+  const values = computeSizeValues(mode, index, analytics);
+  const [min = 0, max = 0] = d3.extent(values.values());
+  const scale = d3
+    .scaleSequential(METRIC_COLOR_INTERPOLATOR)
+    .domain([min, max > min ? max : min + 1]);
+  return new Map(names.map((name) => [name, scale(values.get(name) ?? 0)]));
+};
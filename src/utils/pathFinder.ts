@@ -0,0 +1,99 @@
+import type { Relation } from "../types";
+import { getIncoming, getOutgoing, type GraphIndex } from "./graphIndex";
+
+// One relation along a path; `forward` is false when an undirected search
+// followed the relation from its target to its source
+export interface PathStep {
+  relation: Relation;
+  forward: boolean;
+}
+
+export interface PathOptions {
+  directed: boolean;
+  allowRelation: (relation: Relation) => boolean;
+  limit?: number; // most paths returned when several are equally short
+}
+
+// Every shortest path from one entity to another, up to the limit. An empty
+// list means the entities aren't connected; a single empty path means they
+// are the same entity.
+export const findShortestPaths = (
+  index: GraphIndex,
+  from: string,
+  to: string,
+  { directed, allowRelation, limit = 10 }: PathOptions
+): PathStep[][] => {
+  if (!index.entitiesByName.has(from) || !index.entitiesByName.has(to)) return [];
+  if (from === to) return [[]];
+
+  const steps = (name: string): [string, PathStep][] => [
+    ...getOutgoing(index, name)
+      .filter(allowRelation)
+      .map((relation): [string, PathStep] => [relation.to, { relation, forward: true }]),
+    ...(directed
+      ? []
+      : getIncoming(index, name)
+          .filter(allowRelation)
+          .map((relation): [string, PathStep] => [
+            relation.from,
+            { relation, forward: false },
+          ])),
+  ];
+
+  // Breadth-first search, remembering every step that reaches an entity at
+  // its shortest distance
+  const distance = new Map([[from, 0]]);
+  const arrivals = new Map<string, PathStep[]>();
+  let frontier = [from];
+  while (frontier.length > 0 && !distance.has(to)) {
+    const next: string[] = [];
+    frontier.forEach((name) => {
+      const depth = distance.get(name) + 1;
+      steps(name).forEach(([neighbor, step]) => {
+        if (!index.entitiesByName.has(neighbor)) return;
+        if (!distance.has(neighbor)) {
+          distance.set(neighbor, depth);
+          next.push(neighbor);
+        }
+        if (distance.get(neighbor) === depth) {
+          const list = arrivals.get(neighbor);
+          if (list) list.push(step);
+          else arrivals.set(neighbor, [step]);
+        }
+      });
+    });
+    frontier = next;
+  }
+  if (!distance.has(to)) return [];
+
+  // Walk back from the target over the recorded steps
+  const paths: PathStep[][] = [];
+  const walk = (name: string, suffix: PathStep[]) => {
+    if (paths.length >= limit) return;
+    if (name === from) {
+      paths.push(suffix);
+      return;
+    }
+    (arrivals.get(name) ?? []).forEach((step) =>
+      walk(step.forward ? step.relation.from : step.relation.to, [step, ...suffix])
+    );
+  };
+  walk(to, []);
+  return paths;
+};
+
+// Entity names along a path, starting with `from`
+export const pathEntities = (from: string, path: PathStep[]) => [
+  from,
+  ...path.map((step) => (step.forward ? step.relation.to : step.relation.from)),
+];
+
+// A path as text, e.g. "Alice —works_at→ Acme ←owns— Bob"
+export const formatPath = (from: string, path: PathStep[]) =>
+  path.reduce(
+    (text, step) =>
+      step.forward
+        ? `${text} —${step.relation.relationType}→ ${step.relation.to}`
+        : `${text} ←${step.relation.relationType}— ${step.relation.from}`,
+    from
+  );
@@ -0,0 +1,15 @@
+// Read a dropped or selected file as text
+export const readFileAsText = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e: ProgressEvent<FileReader>) => {
+      const content = e.target?.result;
+      if (typeof content === "string") {
+        resolve(content);
+      } else {
+        reject(new Error(`Could not read ${file.name} as text`));
+      }
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
@@ -0,0 +1,177 @@
+import type { GraphData, Node } from "../types";
+
+// Node positions keyed by entity name, so they survive edits and reloads
+export interface SavedPosition {
+  x: number;
+  y: number;
+  pinned?: boolean;
+}
+
+export type SavedLayout = Record<string, SavedPosition>;
+
+const STORAGE_PREFIX = "memory-visualizer:layout:";
+// Stored layout keys, most recently used first. Every edit to the entity
+// names gives the graph a new key, so older layouts are evicted past the cap.
+const INDEX_KEY = "memory-visualizer:layouts";
+const MAX_STORED_LAYOUTS = 20;
+// Browsers give a site about 5 million characters of storage; a layout
+// longer than this can't be stored however many others are evicted
+const MAX_LAYOUT_LENGTH = 4_000_000;
+
+// 32-bit FNV-1a hash as hex
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+// Layouts are remembered per graph content rather than per file name, as
+// most memory files are called memory.json and every paste is "clipboard"
+const storageKey = (data: GraphData) => {
+  const names = data.entities.map((e) => e.name).sort();
+  return `${STORAGE_PREFIX}${names.length}:${hashString(names.join("\n"))}`;
+};
+
+export const captureLayout = (nodes: Node[], pinned: Set<string>): SavedLayout => {
+  const layout: SavedLayout = {};
+  nodes.forEach((node) => {
+    if (node.x === undefined || node.y === undefined) return;
+    layout[node.id] = {
+      x: Math.round(node.x * 10) / 10,
+      y: Math.round(node.y * 10) / 10,
+      ...(pinned.has(node.id) ? { pinned: true } : {}),
+    };
+  });
+  return layout;
+};
+
+// Sidecar file format: { "version": 1, "positions": { name: { x, y, pinned } } }
+export const serializeSavedLayout = (layout: SavedLayout) =>
+  JSON.stringify({ version: 1, positions: layout }, null, 2);
+
+// Read a sidecar file (or a stored layout), skipping malformed entries.
+// Throws when the content isn't a positions file at all.
+export const parseSavedLayout = (content: string): SavedLayout => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("The positions file is not valid JSON.");
+  }
+  const positions = (parsed as { positions?: unknown })?.positions;
+  if (!positions || typeof positions !== "object" || Array.isArray(positions)) {
+    throw new Error('The positions file has no "positions" object.');
+  }
+  const layout: SavedLayout = {};
+  Object.entries(positions).forEach(([name, value]) => {
+    const { x, y, pinned } = (value ?? {}) as Partial<SavedPosition>;
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+    layout[name] = { x, y, ...(pinned === true ? { pinned: true } : {}) };
+  });
+  return layout;
+};
+
+const readIndex = (): string[] => {
+  const index = localStorage.getItem(INDEX_KEY);
+  if (index === null) {
+    // Layouts stored before the index existed
+    return Object.keys(localStorage).filter((key) => key.startsWith(STORAGE_PREFIX));
+  }
+  try {
+    const parsed: unknown = JSON.parse(index);
+    return Array.isArray(parsed)
+      ? parsed.filter((key): key is string => typeof key === "string")
+      : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeIndex = (keys: string[]) => {
+  try {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(keys));
+  } catch {
+    // The index is rebuilt from what is left next time
+  }
+};
+
+// Moves a key to the front of the index and drops the layouts past the cap
+const touchIndex = (key: string) => {
+  const keys = [key, ...readIndex().filter((k) => k !== key)];
+  keys.slice(MAX_STORED_LAYOUTS).forEach((k) => localStorage.removeItem(k));
+  writeIndex(keys.slice(0, MAX_STORED_LAYOUTS));
+};
+
+// Only the positions of entities the graph has
+const positionsIn = (layout: SavedLayout, names: Set<string>): SavedLayout =>
+  Object.fromEntries(Object.entries(layout).filter(([name]) => names.has(name)));
+
+// The layout stored for this graph, or else the stored layout sharing the
+// most entity names with it, so adding or renaming an entity keeps the
+// positions of all the others
+export const loadStoredLayout = (data: GraphData): SavedLayout | null => {
+  try {
+    const names = new Set(data.entities.map((e) => e.name));
+    const key = storageKey(data);
+    let best: { key: string; layout: SavedLayout; shared: number } | null = null;
+    for (const candidate of [key, ...readIndex().filter((k) => k !== key)]) {
+      const stored = localStorage.getItem(candidate);
+      if (!stored) continue;
+      const layout = positionsIn(parseSavedLayout(stored), names);
+      const shared = Object.keys(layout).length;
+      if (candidate === key) {
+        best = { key, layout, shared };
+        break;
+      }
+      if (shared > (best?.shared ?? 0)) best = { key: candidate, layout, shared };
+    }
+    if (!best) return null;
+    touchIndex(best.key);
+    return best.layout;
+  } catch {
+    return null;
+  }
+};
+
+// Returns false when the layout couldn't be stored even after evicting
+// every other layout, i.e. storage is full or unavailable
+export const storeLayout = (data: GraphData, layout: SavedLayout): boolean => {
+  const key = storageKey(data);
+  const value = JSON.stringify({ version: 1, positions: layout });
+  if (value.length > MAX_LAYOUT_LENGTH) return false;
+  let others: string[] = [];
+  try {
+    others = readIndex().filter((k) => k !== key);
+    for (;;) {
+      try {
+        localStorage.setItem(key, value);
+        break;
+      } catch (error) {
+        // Make room by dropping the least recently used layout
+        const oldest = others.pop();
+        if (!oldest) throw error;
+        localStorage.removeItem(oldest);
+      }
+    }
+    writeIndex(others);
+    touchIndex(key);
+    return true;
+  } catch {
+    // Keep the index to the layouts that are still there
+    try {
+      writeIndex(localStorage.getItem(key) !== null ? [key, ...others] : others);
+    } catch {
+      // Storage is unavailable altogether
+    }
+    return false;
+  }
+};
+
+// Sidecar name for a memory file, e.g. memory.jsonl -> memory.positions.json
+export const positionsFileName = (sources: string[]) =>
+  sources.length === 1
+    ? `${sources[0].replace(/\.jsonl?$/i, "")}.positions.json`
+    : "memory.positions.json";
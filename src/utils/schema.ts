@@ -0,0 +1,94 @@
+import type { GraphData, Relation } from "../types";
+import type { GraphIndex } from "./graphIndex";
+
+export interface SchemaType {
+  entityType: string;
+  names: string[]; // entities of the type
+}
+
+// One way a relation type is used: from entities of one type to entities of
+// another, e.g. Person —works_at→ Organization
+export interface SchemaEdge {
+  fromType: string;
+  relationType: string;
+  toType: string;
+  relations: Relation[];
+  share: number; // of all usages of the relation type
+  // The usual pattern of the relation type when this edge deviates from it
+  dominant: SchemaEdge | null;
+}
+
+export interface Schema {
+  types: SchemaType[];
+  edges: SchemaEdge[];
+}
+
+// A pattern used for at most this share of a relation type's usages, while
+// another pattern covers at least half of them, is a likely mistake
+export const DEVIATION_SHARE = 0.2;
+const DOMINANT_SHARE = 0.5;
+
+// The implicit schema of a graph: entity types, and the type pairs each
+// relation type connects. Relations to unknown entities are left out.
+export const inferSchema = (data: GraphData, index: GraphIndex): Schema => {
+  const edgesByKey = new Map<string, SchemaEdge>();
+  data.relations.forEach((relation) => {
+    const from = index.entitiesByName.get(relation.from);
+    const to = index.entitiesByName.get(relation.to);
+    if (!from || !to) return;
+    const key = JSON.stringify([from.entityType, relation.relationType, to.entityType]);
+    const edge = edgesByKey.get(key);
+    if (edge) edge.relations.push(relation);
+    else {
+      edgesByKey.set(key, {
+        fromType: from.entityType,
+        relationType: relation.relationType,
+        toType: to.entityType,
+        relations: [relation],
+        share: 1,
+        dominant: null,
+      });
+    }
+  });
+
+  const edges = [...edgesByKey.values()].sort(
+    (a, b) =>
+      a.relationType.localeCompare(b.relationType) ||
+      b.relations.length - a.relations.length
+  );
+  const byRelationType = new Map<string, SchemaEdge[]>();
+  edges.forEach((edge) => {
+    const list = byRelationType.get(edge.relationType);
+    if (list) list.push(edge);
+    else byRelationType.set(edge.relationType, [edge]);
+  });
+  byRelationType.forEach((patterns) => {
+    const total = patterns.reduce((sum, edge) => sum + edge.relations.length, 0);
+    patterns.forEach((edge) => (edge.share = edge.relations.length / total));
+    // Sorted by count, so the first pattern is the most common one
+    const [dominant] = patterns;
+    if (dominant.share < DOMINANT_SHARE) return;
+    patterns.forEach((edge) => {
+      if (edge !== dominant && edge.share <= DEVIATION_SHARE) edge.dominant = dominant;
+    });
+  });
+
+  return {
+    types: [...index.entitiesByType]
+      .map(([entityType, entities]) => ({
+        entityType,
+        names: entities.map((entity) => entity.name),
+      }))
+      .sort(
+        (a, b) =>
+          b.names.length - a.names.length || a.entityType.localeCompare(b.entityType)
+      ),
+    edges,
+  };
+};
+
+export const isDeviation = (edge: SchemaEdge) => edge.dominant !== null;
+
+// An edge as text, e.g. "Person —works_at (42)→ Organization"
+export const formatSchemaEdge = (edge: SchemaEdge) =>
+  `${edge.fromType} —${edge.relationType} (${edge.relations.length})→ ${edge.toType}`;
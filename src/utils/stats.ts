@@ -0,0 +1,93 @@
+import * as d3 from "d3";
+import type { GraphData, Stats } from "../types";
+import { getInDegree, getOutDegree, type GraphIndex } from "./graphIndex";
+
+// Summary counters shown in the stats bar
+export const computeStats = (data: GraphData, index: GraphIndex): Stats => ({
+  entityCount: data.entities.length,
+  relationCount: data.relations.length,
+  entityTypeCount: index.entitiesByType.size,
+  relationTypeCount: index.relationsByType.size,
+});
+
+export interface HistogramBin {
+  x0: number; // inclusive
+  x1: number; // exclusive
+  count: number;
+}
+
+// How often entities of one type relate to entities of another type
+// through a relation type
+export interface TypeConnection {
+  fromType: string;
+  toType: string;
+  relationType: string;
+  count: number;
+}
+
+export interface GraphDistributions {
+  entitiesPerType: [string, number][];
+  relationsPerType: [string, number][];
+  degrees: HistogramBin[];
+  observationCounts: HistogramBin[];
+  observationLengths: HistogramBin[]; // in characters
+  typeConnections: TypeConnection[];
+}
+
+// Bins over whole numbers: one per value for small ranges, otherwise
+// about 20 bins with round bounds
+const histogram = (values: number[]): HistogramBin[] => {
+  if (values.length === 0) return [];
+  const max = d3.max(values);
+  const thresholds =
+    max < 20 ? d3.range(1, max + 1) : d3.ticks(0, max + 1, 20).filter((t) => t > 0);
+  return d3
+    .bin()
+    .domain([0, max + 1])
+    .thresholds(thresholds)(values)
+    .map((bin) => ({ x0: bin.x0, x1: bin.x1, count: bin.length }));
+};
+
+const byCount = (counts: Map<string, unknown[]>): [string, number][] =>
+  [...counts]
+    .map(([key, list]): [string, number] => [key, list.length])
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+
+// Distributions shown in the statistics dashboard
+export const computeDistributions = (
+  data: GraphData,
+  index: GraphIndex
+): GraphDistributions => {
+  const connections = new Map<string, TypeConnection>();
+  data.relations.forEach((relation) => {
+    const from = index.entitiesByName.get(relation.from);
+    const to = index.entitiesByName.get(relation.to);
+    if (!from || !to) return;
+    const key = JSON.stringify([from.entityType, to.entityType, relation.relationType]);
+    const connection = connections.get(key);
+    if (connection) connection.count++;
+    else {
+      connections.set(key, {
+        fromType: from.entityType,
+        toType: to.entityType,
+        relationType: relation.relationType,
+        count: 1,
+      });
+    }
+  });
+
+  return {
+    entitiesPerType: byCount(index.entitiesByType),
+    relationsPerType: byCount(index.relationsByType),
+    degrees: histogram(
+      data.entities.map(
+        (entity) => getInDegree(index, entity.name) + getOutDegree(index, entity.name)
+      )
+    ),
+    observationCounts: histogram(data.entities.map((entity) => entity.observations.length)),
+    observationLengths: histogram(
+      data.entities.flatMap((entity) => entity.observations.map((obs) => obs.length))
+    ),
+    typeConnections: [...connections.values()],
+  };
+};
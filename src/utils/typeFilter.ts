@@ -0,0 +1,78 @@
+// Filter on entity or relation types. When some types are included only
+// those are shown; excluded types are never shown.
+export interface TypeFilter {
+  include: Set<string>;
+  exclude: Set<string>;
+}
+
+export type TypeFilterMode = "include" | "exclude" | null;
+
+export const emptyTypeFilter = (): TypeFilter => ({
+  include: new Set(),
+  exclude: new Set(),
+});
+
+export const isTypeFilterActive = (filter: TypeFilter) =>
+  filter.include.size > 0 || filter.exclude.size > 0;
+
+export const passesTypeFilter = (filter: TypeFilter, type: string) =>
+  (filter.include.size === 0 || filter.include.has(type)) &&
+  !filter.exclude.has(type);
+
+export const getTypeFilterMode = (filter: TypeFilter, type: string): TypeFilterMode =>
+  filter.include.has(type) ? "include" : filter.exclude.has(type) ? "exclude" : null;
+
+// Include, exclude or stop filtering on a type
+export const setTypeFilterMode = (
+  filter: TypeFilter,
+  type: string,
+  mode: TypeFilterMode
+): TypeFilter => {
+  const include = new Set(filter.include);
+  const exclude = new Set(filter.exclude);
+  include.delete(type);
+  exclude.delete(type);
+  if (mode === "include") include.add(type);
+  if (mode === "exclude") exclude.add(type);
+  return { include, exclude };
+};
+
+// Show or hide a single type, as the legends do, keeping the rest of the
+// filter as it is
+export const toggleTypeVisibility = (
+  filter: TypeFilter,
+  type: string,
+  allTypes: string[]
+): TypeFilter => {
+  if (!passesTypeFilter(filter, type)) {
+    const exclude = new Set(filter.exclude);
+    exclude.delete(type);
+    const include = new Set(filter.include);
+    if (include.size > 0) include.add(type);
+    return { include, exclude };
+  }
+  if (filter.include.size === 0) {
+    return { include: filter.include, exclude: new Set([...filter.exclude, type]) };
+  }
+  const include = new Set(filter.include);
+  include.delete(type);
+  // Without any included type everything would show again
+  return include.size > 0
+    ? { include, exclude: filter.exclude }
+    : { include, exclude: new Set(allTypes) };
+};
+
+// Types that the filter hides
+export const hiddenByTypeFilter = (filter: TypeFilter, types: Iterable<string>) =>
+  new Set([...types].filter((type) => !passesTypeFilter(filter, type)));
+
+// Show only the given types, or everything again when exactly those types
+// were already the only ones shown
+export const toggleOnlyTypes = (filter: TypeFilter, types: string[]): TypeFilter => {
+  const only = new Set(types);
+  const alreadyOnly =
+    filter.exclude.size === 0 &&
+    filter.include.size === only.size &&
+    [...only].every((type) => filter.include.has(type));
+  return alreadyOnly ? emptyTypeFilter() : { include: only, exclude: new Set() };
+};